@@ -0,0 +1,75 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { normalizeLanguageCode } from "@/lib/languages";
+import { createWikiProxy } from "@/lib/wikiProxy";
+
+export const dynamic = "force-dynamic";
+
+const ALLOWED_ACTIONS = new Set(["opensearch", "query", "parse"]);
+const PROXY_PARAMS = new Set(["lang", "kind", "origin", "callback", "format"]);
+
+// WIKIPEDIA_ORIGIN_TEMPLATE lets the proxy run against a local stub server,
+// e.g. "http://127.0.0.1:4010/$LANG".
+const proxy = createWikiProxy({
+  originTemplate: process.env.WIKIPEDIA_ORIGIN_TEMPLATE || undefined,
+  userAgent: process.env.WIKIPEDIA_USER_AGENT || undefined,
+});
+
+const errorResponse = (status: number, code: string, info: string) =>
+  NextResponse.json({ error: { code, info } }, { status });
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const language = normalizeLanguageCode(params.get("lang") ?? "");
+
+  if (!language) {
+    return errorResponse(400, "badlang", "A valid Wikipedia language code is required.");
+  }
+
+  const kind = params.get("kind") ?? "action";
+  let upstreamPath: string;
+
+  if (kind === "summary") {
+    const title = params.get("title")?.trim();
+    if (!title) {
+      return errorResponse(400, "notitle", "A page title is required for summaries.");
+    }
+    upstreamPath = `/api/rest_v1/page/summary/${encodeURIComponent(title)}`;
+  } else if (kind === "action") {
+    const action = params.get("action") ?? "";
+    if (!ALLOWED_ACTIONS.has(action)) {
+      return errorResponse(400, "badaction", `Action "${action}" is not proxied.`);
+    }
+
+    const upstream = new URLSearchParams();
+    params.forEach((value, key) => {
+      if (!PROXY_PARAMS.has(key)) {
+        upstream.append(key, value);
+      }
+    });
+    upstream.set("format", "json");
+    upstream.sort();
+    upstreamPath = `/w/api.php?${upstream.toString()}`;
+  } else {
+    return errorResponse(400, "badkind", `Unknown request kind "${kind}".`);
+  }
+
+  try {
+    const result = await proxy.request(proxy.resolveUrl(language, upstreamPath));
+
+    return new Response(result.body, {
+      status: result.status,
+      headers: {
+        "Content-Type": result.contentType,
+        "Cache-Control": result.status === 200 ? "public, max-age=300" : "no-store",
+      },
+    });
+  } catch (error) {
+    return errorResponse(
+      502,
+      "upstream",
+      error instanceof Error
+        ? `Wikipedia is unreachable: ${error.message}`
+        : "Wikipedia is unreachable."
+    );
+  }
+}
@@ -1,19 +1,74 @@
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
-import SearchPanel, { SearchPayload } from "@/components/SearchPanel";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import SearchPanel, {
+  createSearchPayload,
+  type CandidateGroup,
+  type DisambiguationChoice,
+  type SearchPayload,
+} from "@/components/SearchPanel";
 import ArticlePreview from "@/components/ArticlePreview";
 import TimelineSummary from "@/components/TimelineSummary";
 import PreviewStage from "@/components/PreviewStage";
 import StatusBanner from "@/components/StatusBanner";
+import ProjectControls from "@/components/ProjectControls";
+import AudioTrackPanel from "@/components/AudioTrackPanel";
 import {
-  fetchArticleByTopic,
+  fetchArticleByRevision,
+  fetchArticleByTitle,
+  fetchDisambiguationLinks,
+  searchArticleCandidates,
   type WikiArticle,
+  type WikiSearchCandidate,
 } from "@/lib/wiki";
+import { createArticleFromText } from "@/lib/pastedText";
+import { applySectionFilter, splitSectionNames } from "@/lib/sections";
+import {
+  deleteCachedArticle,
+  findCachedArticle,
+  listCachedArticles,
+  writeCachedArticle,
+  type CachedArticle,
+} from "@/lib/articleCache";
+import {
+  createProject,
+  loadProjectArticles,
+  parseProject,
+  serializeProject,
+} from "@/lib/project";
+import { listSearchableKeywords, parseKeywords } from "@/lib/matching";
+import {
+  collectArticleMatches,
+  loadArticlesByTitles,
+  loadArticlesByTopics,
+  loadArticlesForKeywords,
+  splitTopicList,
+  type LoadedArticles,
+} from "@/lib/multiArticle";
+import { describeOrdering, orderMatches } from "@/lib/ordering";
+import { describeSpeedRamp } from "@/lib/speedRamp";
+import {
+  loadAudioTrack,
+  releaseAudioTrack,
+  resolveBeatGrid,
+  type AudioTrack,
+} from "@/lib/audioTrack";
+import { alignTimelineToBeats } from "@/lib/beats";
+import {
+  buildCutTimeline,
+  clearCutDurations,
+  createCuts,
+  duplicateCut,
+  getCutSounds,
+  getEnabledMatches,
+  getStageIndex,
+  moveCut,
+  setCutDuration,
+  setCutEnabled,
+  setCutSound,
+  type TimelineCut,
+} from "@/lib/curation";
 import {
-  buildTimeline,
-  collectMatches,
-  splitKeywords,
   type KeywordMatch,
   type TimelineItem,
 } from "@/lib/text";
@@ -29,34 +84,244 @@ type FetchState = "idle" | "loading" | "error" | "ready";
 interface AppState {
   status: FetchState;
   message: string | null;
+  /** The main article; `articles[0]` when several are loaded. */
   article: WikiArticle | null;
+  /** Every loaded article; `KeywordMatch.articleIndex` points into this list. */
+  articles: WikiArticle[];
+  /** Curated cuts; `matches` and `timeline` cover the enabled ones. */
+  cuts: TimelineCut[];
   matches: KeywordMatch[];
   timeline: TimelineItem[];
   payload: SearchPayload | null;
+  candidateGroups: CandidateGroup[];
+  disambiguation: DisambiguationChoice | null;
 }
 
 const INITIAL_STATE: AppState = {
   status: "idle",
   message: null,
   article: null,
+  articles: [],
+  cuts: [],
   matches: [],
   timeline: [],
   payload: null,
+  candidateGroups: [],
+  disambiguation: null,
 };
 
 export default function Home() {
   const [state, setState] = useState<AppState>(INITIAL_STATE);
   const [activeMatchIndex, setActiveMatchIndex] = useState<number | null>(null);
+  const [stageSeek, setStageSeek] = useState<{ index: number; nonce: number } | null>(null);
+  const lastPayloadRef = useRef<SearchPayload | null>(null);
+  const [audioTrack, setAudioTrack] = useState<AudioTrack | null>(null);
+  const [audioStatus, setAudioStatus] = useState<{ busy: boolean; error: string | null }>({
+    busy: false,
+    error: null,
+  });
+  const [cachedArticles, setCachedArticles] = useState<CachedArticle[]>([]);
+  const [panelDefaults, setPanelDefaults] = useState<{
+    key: number;
+    payload: SearchPayload | undefined;
+  }>({ key: 0, payload: undefined });
+
+  const refreshCachedArticles = useCallback(async () => {
+    setCachedArticles(await listCachedArticles());
+  }, []);
+
+  useEffect(() => {
+    void refreshCachedArticles();
+  }, [refreshCachedArticles]);
+
+  function applyArticle(
+    article: WikiArticle,
+    payload: SearchPayload,
+    fallbackTerm: string | null,
+    candidateGroups: CandidateGroup[] = [],
+    disambiguation: DisambiguationChoice | null = null
+  ) {
+    applyArticles([article], payload, fallbackTerm, candidateGroups, disambiguation);
+  }
+
+  function applyArticles(
+    articles: WikiArticle[],
+    payload: SearchPayload,
+    fallbackTerm: string | null,
+    candidateGroups: CandidateGroup[] = [],
+    disambiguation: DisambiguationChoice | null = null,
+    note: string | null = null
+  ) {
+    const filteredArticles = articles.map((article) =>
+      applySectionFilter(article, {
+        excludedSections: splitSectionNames(payload.excludedSections),
+        paragraphLimit: payload.paragraphLimit,
+      })
+    );
+    const [article] = filteredArticles;
+    const matches = orderMatches(
+      collectArticleMatches(filteredArticles, payload.keywords, {
+        foldCharacters: payload.foldCharacters,
+        fuzzyThreshold: payload.fuzzyThreshold,
+      }),
+      {
+        ordering: payload.matchOrdering,
+        maxMatches: payload.maxMatches,
+        perKeywordCap: payload.perKeywordCap,
+        seed: payload.orderingSeed,
+        paragraphLengths: filteredArticles.map((entry) =>
+          entry.paragraphs.map((paragraph) => paragraph.length)
+        ),
+        keywordOrder: parseKeywords(payload.keywords).specs.map((spec) => spec.label),
+      }
+    );
+
+    const cuts = createCuts(matches);
+    const timeline = buildCutTimeline(cuts, payload.stagePreferences);
+    setActiveMatchIndex(matches.length > 0 ? 0 : null);
+
+    const resolvedPayload: SearchPayload = {
+      ...payload,
+      topic: article.title,
+    };
+    const loaded =
+      filteredArticles.length > 1
+        ? `${filteredArticles.length} articles (${filteredArticles
+            .map((entry) => `"${entry.title}"`)
+            .join(", ")})`
+        : `"${article.title}"`;
+
+    setState({
+      status: "ready",
+      message: `Loaded ${loaded} with ${matches.length} planned match cut target(s)${
+        fallbackTerm ? ` (auto-selected via "${fallbackTerm}")` : ""
+      }.${note ? ` ${note}` : ""}`,
+      article,
+      articles: filteredArticles,
+      cuts,
+      matches,
+      timeline,
+      payload: resolvedPayload,
+      candidateGroups,
+      disambiguation,
+    });
+    void refreshCachedArticles();
+  }
+
+  async function openCandidate(
+    candidate: WikiSearchCandidate,
+    payload: SearchPayload,
+    fallbackTerm: string | null,
+    candidateGroups: CandidateGroup[],
+    disambiguation: DisambiguationChoice | null = null
+  ) {
+    if (candidate.isDisambiguation) {
+      const links = await fetchDisambiguationLinks(candidate.title, payload.language);
+      setActiveMatchIndex(null);
+      setState({
+        ...INITIAL_STATE,
+        status: "ready",
+        message: `"${candidate.title}" is a disambiguation page. Pick one of its ${links.length} linked article(s).`,
+        candidateGroups,
+        disambiguation: { title: candidate.title, links },
+      });
+      return;
+    }
+
+    const article = await fetchArticleByTitle(candidate.title, payload.language);
+    applyArticle(article, payload, fallbackTerm, candidateGroups, disambiguation);
+  }
+
+  async function handlePick(
+    candidate: WikiSearchCandidate,
+    disambiguation: DisambiguationChoice | null = null
+  ) {
+    const payload = lastPayloadRef.current;
+    if (!payload) {
+      return;
+    }
+
+    const candidateGroups = state.candidateGroups;
+    setState((previous) => ({
+      ...previous,
+      status: "loading",
+      message: `Loading "${candidate.title}"...`,
+    }));
+    setActiveMatchIndex(null);
+
+    try {
+      await openCandidate(candidate, payload, null, candidateGroups, disambiguation);
+    } catch (error) {
+      setState({
+        ...INITIAL_STATE,
+        status: "error",
+        message: error instanceof Error ? error.message : "Unexpected error occurred.",
+        candidateGroups,
+        disambiguation,
+      });
+    }
+  }
+
+  function handlePickDisambiguationLink(title: string) {
+    if (!lastPayloadRef.current) {
+      return;
+    }
+
+    void handlePick(
+      {
+        title,
+        language: lastPayloadRef.current.language,
+        description: "",
+        isDisambiguation: false,
+      },
+      state.disambiguation
+    );
+  }
 
   async function handleSearch(payload: SearchPayload) {
+    lastPayloadRef.current = payload;
+    const isPastedText = payload.source === "text";
+
     setState((previous) => ({
       ...previous,
       status: "loading",
-      message: "Fetching article from Wikipedia...",
+      message: isPastedText ? "Preparing pasted text..." : "Fetching article from Wikipedia...",
     }));
     setActiveMatchIndex(null);
 
     try {
+      if (isPastedText) {
+        const article = createArticleFromText(
+          payload.pastedText,
+          payload.pastedTitle,
+          payload.language
+        );
+
+        if (!article) {
+          setState({
+            ...INITIAL_STATE,
+            status: "error",
+            message: "Paste some text or drop a .txt / .md file to use as the article.",
+          });
+          return;
+        }
+
+        await writeCachedArticle(article);
+        applyArticle(article, payload, null);
+        return;
+      }
+
+      if (payload.revisionId !== null) {
+        const article = await fetchArticleByRevision(payload.revisionId, payload.language);
+        applyArticle(article, payload, null);
+        return;
+      }
+
+      if (payload.articleMode !== "single") {
+        await loadMultipleArticles(payload);
+        return;
+      }
+
       const seen = new Set<string>();
       const normalizedTopic = payload.topic.trim();
       const candidateTerms: string[] = [];
@@ -75,7 +340,7 @@ export default function Home() {
       };
 
       pushTerm(normalizedTopic);
-      splitKeywords(payload.keywords).forEach(pushTerm);
+      listSearchableKeywords(payload.keywords).forEach(pushTerm);
 
       if (candidateTerms.length === 0) {
         setState({
@@ -87,20 +352,35 @@ export default function Home() {
         return;
       }
 
-      let article: WikiArticle | null = null;
+      const candidateGroups: CandidateGroup[] = [];
+      let chosen: WikiSearchCandidate | null = null;
       let matchedTerm: string | null = null;
 
       for (const term of candidateTerms) {
-        const result = await fetchArticleByTopic(term, payload.language);
+        let candidates: WikiSearchCandidate[];
+
+        try {
+          candidates = await searchArticleCandidates(term, payload.language);
+        } catch (error) {
+          // Offline or rate limited: reopen a cached copy of the term if we have one.
+          const cached = await findCachedArticle("wikipedia", payload.language, term);
+          if (!cached) {
+            throw error;
+          }
+          applyArticle(cached.article, payload, term === normalizedTopic ? null : term);
+          return;
+        }
+
+        candidateGroups.push({ term, candidates });
 
-        if (result) {
-          article = result;
+        if (candidates.length) {
+          chosen = candidates.find((candidate) => !candidate.isDisambiguation) ?? candidates[0];
           matchedTerm = term;
           break;
         }
       }
 
-      if (!article) {
+      if (!chosen) {
         setActiveMatchIndex(null);
         setState({
           ...INITIAL_STATE,
@@ -108,56 +388,211 @@ export default function Home() {
           message: `No Wikipedia article found for ${candidateTerms
             .map((term) => `"${term}"`)
             .join(", ")} (${payload.language.toUpperCase()}).`,
+          candidateGroups,
         });
         return;
       }
 
-      const resolvedTopic = article.title;
       const usedFallback =
         normalizedTopic.length === 0 ||
         (matchedTerm && matchedTerm.localeCompare(normalizedTopic, undefined, { sensitivity: "accent" }) !== 0);
 
-      const matches = collectMatches(article, payload.keywords)
-        .sort((a, b) => {
-          if (a.paragraphIndex === b.paragraphIndex) {
-            return a.start - b.start;
-          }
+      await openCandidate(chosen, payload, usedFallback ? matchedTerm : null, candidateGroups);
+    } catch (error) {
+      const fallbackMessage =
+        error instanceof Error ? error.message : "Unexpected error occurred.";
 
-          return a.paragraphIndex - b.paragraphIndex;
-        })
-        .slice(0, payload.maxMatches);
+      setState({
+        ...INITIAL_STATE,
+        status: "error",
+        message: fallbackMessage,
+      });
+      setActiveMatchIndex(null);
+    }
+  }
 
-      const timeline = buildTimeline(matches, payload.stagePreferences);
-      setActiveMatchIndex(matches.length > 0 ? 0 : null);
+  async function loadMultipleArticles(payload: SearchPayload) {
+    const showProgress = (loaded: number, total: number) =>
+      setState((previous) => ({
+        ...previous,
+        status: "loading",
+        message: `Fetching article ${loaded + 1} of ${total} from Wikipedia...`,
+      }));
 
-      const resolvedPayload: SearchPayload = {
-        ...payload,
-        topic: resolvedTopic,
-      };
+    let result: LoadedArticles;
+    if (payload.articleMode === "topics") {
+      const topics = splitTopicList([payload.topic, payload.extraTopics].join("\n"));
+      if (!topics.length) {
+        setState({
+          ...INITIAL_STATE,
+          status: "error",
+          message: "List at least one topic to load.",
+        });
+        return;
+      }
+      result = await loadArticlesByTopics(topics, payload.language, showProgress);
+    } else if (payload.articleMode === "discover") {
+      if (!payload.discoveredTitles.length) {
+        setState({
+          ...INITIAL_STATE,
+          status: "error",
+          message: "Search article text and pick at least one article to load.",
+        });
+        return;
+      }
+      result = await loadArticlesByTitles(
+        payload.discoveredTitles,
+        payload.language,
+        showProgress
+      );
+    } else {
+      const keywords = listSearchableKeywords(payload.keywords);
+      if (!keywords.length) {
+        setState({
+          ...INITIAL_STATE,
+          status: "error",
+          message: "Add a keyword to search Wikipedia for articles.",
+        });
+        return;
+      }
+      result = await loadArticlesForKeywords(
+        keywords,
+        payload.language,
+        payload.articleLimit,
+        showProgress
+      );
+    }
 
+    if (!result.articles.length) {
       setState({
-        status: "ready",
-        message: `Loaded "${article.title}" with ${matches.length} planned match cut target(s)${
-          usedFallback && matchedTerm ? ` (auto-selected via "${matchedTerm}")` : ""
-        }.`,
-        article,
-        matches,
-        timeline,
-        payload: resolvedPayload,
+        ...INITIAL_STATE,
+        status: "error",
+        message: `No Wikipedia articles could be loaded (${payload.language.toUpperCase()}).`,
       });
+      return;
+    }
+
+    applyArticles(
+      result.articles,
+      payload,
+      null,
+      [],
+      null,
+      result.missing.length
+        ? `Skipped ${result.missing.map((entry) => `"${entry}"`).join(", ")}.`
+        : null
+    );
+  }
+
+  function handleOpenCached(entry: CachedArticle, payload: SearchPayload) {
+    const resolvedPayload = { ...payload, language: entry.language };
+    lastPayloadRef.current = resolvedPayload;
+    setActiveMatchIndex(null);
+    applyArticle(entry.article, resolvedPayload, null);
+  }
+
+  async function handleRefreshCached(entry: CachedArticle, payload: SearchPayload) {
+    const resolvedPayload = { ...payload, language: entry.language };
+    lastPayloadRef.current = resolvedPayload;
+    setState((previous) => ({
+      ...previous,
+      status: "loading",
+      message: `Refreshing "${entry.title}" from Wikipedia...`,
+    }));
+    setActiveMatchIndex(null);
+
+    try {
+      const article = await fetchArticleByTitle(entry.title, entry.language, {
+        useCache: false,
+      });
+      applyArticle(article, resolvedPayload, null);
     } catch (error) {
-      const fallbackMessage =
-        error instanceof Error ? error.message : "Unexpected error occurred.";
+      setState({
+        ...INITIAL_STATE,
+        status: "error",
+        message: error instanceof Error ? error.message : "Unexpected error occurred.",
+      });
+    }
+  }
+
+  async function handleRemoveCached(entry: CachedArticle) {
+    await deleteCachedArticle(entry.key);
+    await refreshCachedArticles();
+  }
+
+  function handleSaveProject() {
+    const { article, payload } = state;
+    if (!article || !payload) {
+      return;
+    }
+
+    const json = serializeProject(createProject(payload, article, state.articles.slice(1)));
+    const blob = new Blob([json], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = `${article.title.replace(/[\\/:*?"<>|]/g, "-")}.match-cut.json`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  }
 
+  async function handleOpenProject(file: File) {
+    setState((previous) => ({
+      ...previous,
+      status: "loading",
+      message: `Opening project "${file.name}"...`,
+    }));
+    setActiveMatchIndex(null);
+
+    try {
+      const project = parseProject(await file.text());
+      const payload = createSearchPayload(project.payload);
+      const articles = await loadProjectArticles(project);
+      const [article] = articles;
+      const pinned = project.article.revisionId;
+
+      lastPayloadRef.current = payload;
+      setPanelDefaults((previous) => ({ key: previous.key + 1, payload }));
+      applyArticles(articles, payload, null);
+
+      if (pinned !== null && article.revisionId !== pinned) {
+        setState((previous) => ({
+          ...previous,
+          message: `${previous.message} Revision ${pinned} could not be loaded; using revision ${
+            article.revisionId ?? "unknown"
+          } instead.`,
+        }));
+      }
+    } catch (error) {
       setState({
         ...INITIAL_STATE,
         status: "error",
-        message: fallbackMessage,
+        message: error instanceof Error ? error.message : "Unable to open project.",
       });
-      setActiveMatchIndex(null);
     }
   }
 
+  function handleSectionToggle(heading: string, included: boolean) {
+    const { articles, payload } = state;
+    if (!articles.length || !payload) {
+      return;
+    }
+
+    const key = heading.toLocaleLowerCase();
+    const remaining = splitSectionNames(payload.excludedSections).filter(
+      (name) => name.toLocaleLowerCase() !== key
+    );
+    const excludedSections = included ? remaining : [...remaining, heading];
+
+    applyArticles(
+      articles,
+      { ...payload, excludedSections: excludedSections.join(", ") },
+      null,
+      state.candidateGroups,
+      state.disambiguation
+    );
+  }
+
   const speedMultiplier = useMemo(() => {
     const raw = state.payload?.stagePreferences.speedMultiplier ?? 1;
     return clampSpeedMultiplier(raw);
@@ -179,7 +614,7 @@ export default function Home() {
           previous.payload.stagePreferences ?? DEFAULT_STAGE_PREFERENCES
         );
         const nextPreferences = cloneStagePreferences(updater(basePreferences));
-        const nextTimeline = buildTimeline(previous.matches, nextPreferences);
+        const nextTimeline = buildCutTimeline(previous.cuts, nextPreferences);
 
         return {
           ...previous,
@@ -194,19 +629,108 @@ export default function Home() {
     []
   );
 
+  // Curation edits rebuild the staged matches and timeline from the cut list,
+  // keeping the current stage preferences and per-cut duration overrides.
+  const updateCuts = useCallback((updater: (cuts: TimelineCut[]) => TimelineCut[]) => {
+    setState((previous) => {
+      const cuts = updater(previous.cuts);
+      if (cuts === previous.cuts) {
+        return previous;
+      }
+
+      return {
+        ...previous,
+        cuts,
+        matches: getEnabledMatches(cuts),
+        timeline: buildCutTimeline(
+          cuts,
+          previous.payload?.stagePreferences ?? DEFAULT_STAGE_PREFERENCES
+        ),
+      };
+    });
+  }, []);
+
+  async function handleLoadAudio(file: File) {
+    setAudioStatus({ busy: true, error: null });
+    try {
+      const track = await loadAudioTrack(file);
+      releaseAudioTrack(audioTrack);
+      setAudioTrack(track);
+      setAudioStatus({ busy: false, error: null });
+    } catch (error) {
+      setAudioStatus({
+        busy: false,
+        error: error instanceof Error ? error.message : "Unable to load the audio file.",
+      });
+    }
+  }
+
+  function handleRemoveAudio() {
+    releaseAudioTrack(audioTrack);
+    setAudioTrack(null);
+    setAudioStatus({ busy: false, error: null });
+  }
+
+  // Beat sync is applied on top of the curated, target-fitted timeline rather
+  // than stored with it; loading or dropping a track never loses edits.
+  const beatGrid = useMemo(
+    () => resolveBeatGrid(audioTrack, stagePreferences.beatSync),
+    [audioTrack, stagePreferences.beatSync]
+  );
+  const stageTimeline = useMemo(
+    () =>
+      beatGrid
+        ? alignTimelineToBeats(state.timeline, beatGrid, stagePreferences.targetRuntimeMs)
+        : state.timeline,
+    [beatGrid, state.timeline, stagePreferences.targetRuntimeMs]
+  );
+
+  const cutSounds = useMemo(
+    () => getCutSounds(state.cuts, stagePreferences.audioMix.cutSound),
+    [state.cuts, stagePreferences.audioMix.cutSound]
+  );
+
+  function handleJumpToCut(id: string) {
+    const index = getStageIndex(state.cuts, id);
+    if (index !== null) {
+      setStageSeek({ index, nonce: Date.now() });
+    }
+  }
+
   return (
     <div className="page">
       <header className="page-header">
         <h1>Text Match CUT (MVP)</h1>
         <p>
-          Load a Wikipedia article, map keyword matches, and stage the match cut
+          Load a Wikipedia article or your own text, map keyword matches, and stage the match cut
           animation timeline.
         </p>
       </header>
 
       <StatusBanner state={state.status} message={state.message} />
 
-      <SearchPanel isBusy={state.status === "loading"} onSubmit={handleSearch} />
+      <ProjectControls
+        canSave={Boolean(state.article && state.payload)}
+        isBusy={state.status === "loading"}
+        onSave={handleSaveProject}
+        onOpen={(file) => void handleOpenProject(file)}
+      />
+
+      <SearchPanel
+        key={panelDefaults.key}
+        defaultPayload={panelDefaults.payload}
+        isBusy={state.status === "loading"}
+        candidateGroups={state.candidateGroups}
+        disambiguation={state.disambiguation}
+        selectedTitle={state.article?.title ?? state.disambiguation?.title ?? null}
+        onSubmit={handleSearch}
+        onPickCandidate={(candidate) => void handlePick(candidate)}
+        onPickDisambiguationLink={handlePickDisambiguationLink}
+        cachedArticles={cachedArticles}
+        onOpenCached={handleOpenCached}
+        onRefreshCached={(entry, payload) => void handleRefreshCached(entry, payload)}
+        onRemoveCached={(entry) => void handleRemoveCached(entry)}
+      />
 
       <main className="layout">
         <div className="layout-column">
@@ -214,7 +738,13 @@ export default function Home() {
             <ArticlePreview
               article={state.article}
               keywords={state.payload?.keywords ?? ""}
+              matchOptions={{
+                foldCharacters: state.payload?.foldCharacters ?? false,
+                fuzzyThreshold: state.payload?.fuzzyThreshold,
+              }}
               highlightColor={state.payload?.highlightColor ?? "#facc15"}
+              excludedSections={splitSectionNames(state.payload?.excludedSections ?? "")}
+              onToggleSection={handleSectionToggle}
             />
           ) : (
             <section className="placeholder">
@@ -225,20 +755,65 @@ export default function Home() {
 
         <div className="layout-column">
           <PreviewStage
-            article={state.article}
+            articles={state.articles}
             matches={state.matches}
-            timeline={state.timeline}
+            timeline={stageTimeline}
+            audioUrl={audioTrack?.url ?? null}
+            cutSounds={cutSounds}
             highlightColor={state.payload?.highlightColor ?? "#facc15"}
             stagePreferences={stagePreferences}
+            seekRequest={stageSeek}
             onActiveMatchChange={setActiveMatchIndex}
             onStagePreferencesChange={handleStagePreferencesChange}
           />
+          <AudioTrackPanel
+            track={audioTrack}
+            beatSync={stagePreferences.beatSync}
+            audioMix={stagePreferences.audioMix}
+            isBusy={audioStatus.busy}
+            error={audioStatus.error}
+            canAdjust={Boolean(state.payload)}
+            onLoad={(file) => void handleLoadAudio(file)}
+            onRemove={handleRemoveAudio}
+            onBeatSyncChange={(patch) =>
+              handleStagePreferencesChange((prev) => ({
+                ...prev,
+                beatSync: { ...prev.beatSync, ...patch },
+              }))
+            }
+            onAudioMixChange={(patch) =>
+              handleStagePreferencesChange((prev) => ({
+                ...prev,
+                audioMix: { ...prev.audioMix, ...patch },
+              }))
+            }
+          />
           <TimelineSummary
-            matches={state.matches}
-            timeline={state.timeline}
+            cuts={state.cuts}
+            timeline={stageTimeline}
+            fittedTimeline={state.timeline}
+            isBeatSynced={beatGrid !== null}
             speedMultiplier={speedMultiplier}
             stageToggles={stagePreferences.phases}
             activeIndex={activeMatchIndex}
+            orderingLabel={
+              state.payload
+                ? describeOrdering(state.payload.matchOrdering, state.payload.perKeywordCap)
+                : null
+            }
+            rampLabel={describeSpeedRamp(stagePreferences.speedRamp)}
+            targetRuntimeMs={stagePreferences.targetRuntimeMs}
+            defaultSound={stagePreferences.audioMix.cutSound}
+            articleTitles={state.articles.map((article) => article.title)}
+            onToggleCut={(id, enabled) => updateCuts((cuts) => setCutEnabled(cuts, id, enabled))}
+            onMoveCut={(from, to) => updateCuts((cuts) => moveCut(cuts, from, to))}
+            onDuplicateCut={(id) => updateCuts((cuts) => duplicateCut(cuts, id))}
+            onJumpToCut={handleJumpToCut}
+            onSetCutDuration={(id, key, value) =>
+              updateCuts((cuts) => setCutDuration(cuts, id, key, value))
+            }
+            onResetCutDurations={(id) => updateCuts((cuts) => clearCutDurations(cuts, id))}
+            onSetCutSound={(id, sound) => updateCuts((cuts) => setCutSound(cuts, id, sound))}
           />
         </div>
       </main>
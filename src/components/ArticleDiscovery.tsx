@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { MatchOptions } from "@/lib/matching";
+import { countArticleMatches, MAX_ARTICLE_LIMIT } from "@/lib/multiArticle";
+import type { SectionFilter } from "@/lib/sections";
+import {
+  fetchArticleByTitle,
+  searchArticlesByText,
+  type SupportedLanguage,
+  type WikiTextSearch,
+} from "@/lib/wiki";
+
+interface ArticleDiscoveryProps {
+  /** Null while the language field holds an invalid code. */
+  language: SupportedLanguage | null;
+  defaultQuery: string;
+  keywords: string;
+  matchOptions: MatchOptions;
+  sectionFilter: SectionFilter;
+  selectedTitles: string[];
+  isBusy: boolean;
+  onSelectionChange(titles: string[]): void;
+}
+
+const SEARCH_RESULT_LIMIT = 20;
+
+export default function ArticleDiscovery({
+  language,
+  defaultQuery,
+  keywords,
+  matchOptions,
+  sectionFilter,
+  selectedTitles,
+  isBusy,
+  onSelectionChange,
+}: ArticleDiscoveryProps) {
+  const [query, setQuery] = useState("");
+  const [search, setSearch] = useState<WikiTextSearch | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  /** Keyword matches per title; null when the article could not be loaded. */
+  const [hitCounts, setHitCounts] = useState<Record<string, number | null>>({});
+  // Bumped by every search so a slow count loop stops writing stale results.
+  const runRef = useRef(0);
+
+  const resolvedQuery = query.trim() || defaultQuery;
+  const results = search?.results ?? [];
+  const countedTitles = results.filter((result) => result.title in hitCounts).length;
+
+  useEffect(() => {
+    const run = ++runRef.current;
+    if (!search || !language || !keywords.trim()) {
+      setHitCounts({});
+      return;
+    }
+
+    async function countHits(titles: string[], searchLanguage: SupportedLanguage) {
+      setHitCounts({});
+      for (const title of titles) {
+        let count: number | null;
+        try {
+          const article = await fetchArticleByTitle(title, searchLanguage);
+          count = countArticleMatches(article, keywords, matchOptions, sectionFilter);
+        } catch {
+          count = null;
+        }
+        if (runRef.current !== run) {
+          return;
+        }
+        setHitCounts((previous) => ({ ...previous, [title]: count }));
+      }
+    }
+
+    void countHits(search.results.map((result) => result.title), language);
+  }, [search, language, keywords, matchOptions, sectionFilter]);
+
+  useEffect(
+    () => () => {
+      runRef.current += 1;
+    },
+    []
+  );
+
+  async function handleSearch() {
+    if (!language) {
+      setError("Fix the language code before searching.");
+      return;
+    }
+    if (!resolvedQuery) {
+      setError("Type a word or phrase to search article text for.");
+      return;
+    }
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      const next = await searchArticlesByText(resolvedQuery, language, SEARCH_RESULT_LIMIT);
+      setSearch(next);
+      onSelectionChange([]);
+      if (!next.results.length) {
+        setError(`No ${language.toUpperCase()} articles contain "${resolvedQuery}".`);
+      }
+    } catch (searchError) {
+      setError(
+        searchError instanceof Error ? searchError.message : "Full-text search failed."
+      );
+    } finally {
+      setIsSearching(false);
+    }
+  }
+
+  function toggleTitle(title: string, checked: boolean) {
+    if (!checked) {
+      onSelectionChange(selectedTitles.filter((entry) => entry !== title));
+    } else if (selectedTitles.length < MAX_ARTICLE_LIMIT) {
+      // Keep the search ranking rather than the click order.
+      const next = new Set([...selectedTitles, title]);
+      onSelectionChange(
+        results.map((result) => result.title).filter((entry) => next.has(entry))
+      );
+    }
+  }
+
+  function formatHits(title: string) {
+    if (!(title in hitCounts)) {
+      return "counting…";
+    }
+    const count = hitCounts[title];
+    return count === null ? "not loaded" : `${count} hit${count === 1 ? "" : "s"}`;
+  }
+
+  return (
+    <div className="article-discovery">
+      <div className="article-discovery-search">
+        <input
+          placeholder={defaultQuery || "Word or phrase in the article text"}
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={(event) => {
+            // Enter searches here instead of submitting the whole form.
+            if (event.key === "Enter") {
+              event.preventDefault();
+              void handleSearch();
+            }
+          }}
+        />
+        <button
+          type="button"
+          disabled={isBusy || isSearching}
+          onClick={() => void handleSearch()}
+        >
+          {isSearching ? "Searching…" : "Find articles"}
+        </button>
+      </div>
+
+      {error ? <span className="field-error">{error}</span> : null}
+
+      {!results.length && selectedTitles.length ? (
+        <span className="field-hint">
+          Picked: {selectedTitles.map((title) => `"${title}"`).join(", ")}
+        </span>
+      ) : null}
+
+      {results.length ? (
+        <>
+          <span className="field-hint">
+            {search && search.totalHits > results.length
+              ? `Top ${results.length} of ${search.totalHits.toLocaleString()} articles`
+              : `${results.length} article${results.length === 1 ? "" : "s"}`}{" "}
+            · {selectedTitles.length} of {MAX_ARTICLE_LIMIT} picked
+            {keywords.trim() && countedTitles < results.length
+              ? ` · counting hits ${countedTitles + 1}/${results.length}`
+              : ""}
+          </span>
+          <ul className="article-discovery-list">
+            {results.map((result) => {
+              const checked = selectedTitles.includes(result.title);
+              return (
+                <li key={result.title}>
+                  <label className={checked ? "is-selected" : undefined}>
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      disabled={
+                        isBusy || (!checked && selectedTitles.length >= MAX_ARTICLE_LIMIT)
+                      }
+                      onChange={(event) => toggleTitle(result.title, event.target.checked)}
+                    />
+                    <span className="article-discovery-body">
+                      <strong dir="auto">{result.title}</strong>
+                      <span className="details">
+                        {keywords.trim() ? `${formatHits(result.title)} · ` : ""}
+                        {result.wordCount.toLocaleString()} words
+                      </span>
+                      {result.snippet ? (
+                        <span className="article-discovery-snippet" dir="auto">
+                          …{result.snippet}…
+                        </span>
+                      ) : null}
+                    </span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      ) : null}
+    </div>
+  );
+}
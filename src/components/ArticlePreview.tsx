@@ -1,35 +1,48 @@
 "use client";
 
-import { useMemo } from "react";
+import { Fragment, useMemo } from "react";
 import type { WikiArticle } from "@/lib/wiki";
-import { splitKeywords } from "@/lib/text";
+import {
+  buildHighlightSegments,
+  createKeywordMatchers,
+  type MatchOptions,
+} from "@/lib/matching";
+import { describeArticleRevision, getArticleSourceLabel } from "@/lib/sources";
+import { getTextDirection } from "@/lib/languages";
+import { formatSectionPath, isSectionExcluded } from "@/lib/sections";
 
 interface ArticlePreviewProps {
   article: WikiArticle;
   keywords: string;
+  matchOptions?: MatchOptions;
   highlightColor: string;
   fontFamily?: string;
-}
-
-function escapeRegex(pattern: string): string {
-  return pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  excludedSections?: string[];
+  onToggleSection?(heading: string, included: boolean): void;
 }
 
 export default function ArticlePreview({
   article,
   keywords,
+  matchOptions,
   highlightColor,
   fontFamily,
+  excludedSections = [],
+  onToggleSection,
 }: ArticlePreviewProps) {
-  const tokens = useMemo(() => splitKeywords(keywords), [keywords]);
-  const highlightPattern = useMemo(() => {
-    if (!tokens.length) {
-      return null;
-    }
-
-    const escaped = tokens.map(escapeRegex).join("|");
-    return new RegExp(`(${escaped})`, "gi");
-  }, [tokens]);
+  const foldCharacters = matchOptions?.foldCharacters ?? false;
+  const fuzzyThreshold = matchOptions?.fuzzyThreshold;
+  const highlightMatchers = useMemo(
+    () => createKeywordMatchers(keywords, article.language, { foldCharacters, fuzzyThreshold }),
+    [keywords, article.language, foldCharacters, fuzzyThreshold]
+  );
+  const headedSections = useMemo(
+    () => article.sections.filter((section) => section.heading),
+    [article.sections]
+  );
+  const includedCount = headedSections.filter(
+    (section) => !isSectionExcluded(section, excludedSections)
+  ).length;
 
   return (
     <section
@@ -37,35 +50,91 @@ export default function ArticlePreview({
       style={fontFamily ? { fontFamily } : undefined}
     >
       <header>
-        <h2>{article.title}</h2>
+        <h2 dir="auto">{article.title}</h2>
         <span className="language-tag">{article.language.toUpperCase()}</span>
+        <span className="source-tag">{getArticleSourceLabel(article.source)}</span>
+        {article.revisionId !== null ? (
+          <span className="source-tag" title={article.revisionTimestamp ?? undefined}>
+            {describeArticleRevision(article)}
+          </span>
+        ) : null}
       </header>
 
-      <div className="paragraphs">
-        {article.paragraphs.map((paragraph, index) => (
-          <p key={index}>
-            {highlightPattern
-              ? paragraph.split(highlightPattern).map((segment, segmentIndex) => {
-                  const isMatch = tokens.some(
-                    (token) => segment.toLocaleLowerCase() === token.toLocaleLowerCase()
-                  );
+      {headedSections.length ? (
+        <details className="section-outline">
+          <summary>
+            Sections ({includedCount} of {headedSections.length} included)
+          </summary>
+          <ul>
+            {headedSections.map((section, index) => {
+              const excluded = isSectionExcluded(section, excludedSections);
+              const excludedByParent =
+                excluded &&
+                !excludedSections.some(
+                  (name) => name.toLocaleLowerCase() === section.heading.toLocaleLowerCase()
+                );
+
+              return (
+                <li
+                  key={`${section.path.join("/")}-${index}`}
+                  style={{ paddingInlineStart: `${(section.level - 2) * 1}rem` }}
+                >
+                  <label className="checkbox-field">
+                    <input
+                      type="checkbox"
+                      checked={!excluded}
+                      disabled={!onToggleSection || excludedByParent}
+                      onChange={(event) =>
+                        onToggleSection?.(section.heading, event.target.checked)
+                      }
+                    />
+                    <span dir="auto">{section.heading}</span>
+                    <span className="section-count">{section.paragraphs.length}</span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+        </details>
+      ) : null}
+
+      <div
+        className="paragraphs"
+        dir={getTextDirection(article.language)}
+        lang={article.language}
+      >
+        {article.paragraphs.map((paragraph, index) => {
+          const sectionIndex = article.paragraphSections[index];
+          const section = article.sections[sectionIndex];
+          const startsSection =
+            index === 0 || article.paragraphSections[index - 1] !== sectionIndex;
 
-                  if (isMatch) {
-                    return (
-                      <mark
-                        key={`${index}-${segmentIndex}`}
-                        style={{ backgroundColor: highlightColor }}
-                      >
-                        {segment}
-                      </mark>
-                    );
-                  }
+          return (
+            <Fragment key={index}>
+              {startsSection && section?.heading ? (
+                <h3 className="paragraph-section">{formatSectionPath(section.path)}</h3>
+              ) : null}
+              <p>
+                {highlightMatchers.length
+                  ? buildHighlightSegments(paragraph, highlightMatchers).map((segment, segmentIndex) => {
+                      if (segment.isMatch) {
+                        return (
+                          <mark
+                            key={`${index}-${segmentIndex}`}
+                            style={{ backgroundColor: highlightColor }}
+                          >
+                            {segment.text}
+                          </mark>
+                        );
+                      }
 
-                  return <span key={`${index}-${segmentIndex}`}>{segment}</span>;
-                })
-              : paragraph}
-          </p>
-        ))}
+                      return <span key={`${index}-${segmentIndex}`}>{segment.text}</span>;
+                    })
+                  : paragraph}
+              </p>
+            </Fragment>
+          );
+        })}
       </div>
     </section>
   );
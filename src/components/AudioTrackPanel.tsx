@@ -0,0 +1,168 @@
+"use client";
+
+import { SOUND_EFFECT_OPTIONS, type AudioMixSettings, type SoundEffect } from "@/lib/audioMix";
+import { AUDIO_FILE_ACCEPT, type AudioTrack } from "@/lib/audioTrack";
+import { MAX_BPM, MIN_BPM } from "@/lib/beats";
+import type { BeatSync } from "@/lib/settings";
+import { formatRuntime } from "@/lib/text";
+
+interface AudioTrackPanelProps {
+  track: AudioTrack | null;
+  beatSync: BeatSync;
+  audioMix: AudioMixSettings;
+  isBusy: boolean;
+  error?: string | null;
+  canAdjust: boolean;
+  onLoad(file: File): void;
+  onRemove(): void;
+  onBeatSyncChange(patch: Partial<BeatSync>): void;
+  onAudioMixChange(patch: Partial<AudioMixSettings>): void;
+}
+
+export default function AudioTrackPanel({
+  track,
+  beatSync,
+  audioMix,
+  isBusy,
+  error = null,
+  canAdjust,
+  onLoad,
+  onRemove,
+  onBeatSyncChange,
+  onAudioMixChange,
+}: AudioTrackPanelProps) {
+  const analysis = track?.analysis ?? null;
+
+  return (
+    <section className="audio-track">
+      <header>
+        <h2>Audio</h2>
+        <span className="meta">
+          {analysis
+            ? `${track?.name} · ${formatRuntime(analysis.durationMs)} · ${
+                analysis.bpm ? `${analysis.bpm} BPM detected` : "no steady beat found"
+              } · ${analysis.onsetsMs.length} onsets`
+            : "Load a local track to cut on the beat; music and cut sounds are exported."}
+        </span>
+      </header>
+
+      <div className="project-controls">
+        <label className={`project-open${isBusy ? " is-disabled" : ""}`}>
+          <span>{isBusy ? "Analysing…" : track ? "Replace track" : "Load audio"}</span>
+          <input
+            type="file"
+            accept={AUDIO_FILE_ACCEPT}
+            disabled={isBusy}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) {
+                onLoad(file);
+              }
+              event.target.value = "";
+            }}
+          />
+        </label>
+        {track ? (
+          <button type="button" onClick={onRemove} disabled={isBusy}>
+            Remove
+          </button>
+        ) : null}
+        <span className="project-hint">
+          The file is analysed in the browser and never uploaded.
+        </span>
+      </div>
+
+      {error ? <p className="field-error">{error}</p> : null}
+
+      <div className="export-grid">
+        <label className="export-field">
+          <span>Cut sound</span>
+          <select
+            value={audioMix.cutSound}
+            disabled={!canAdjust}
+            onChange={(event) =>
+              onAudioMixChange({ cutSound: event.target.value as SoundEffect })
+            }
+          >
+            {SOUND_EFFECT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="export-field">
+          <span>Effects volume {Math.round(audioMix.effectsVolume * 100)}%</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={audioMix.effectsVolume}
+            disabled={!canAdjust}
+            onChange={(event) => onAudioMixChange({ effectsVolume: Number(event.target.value) })}
+          />
+        </label>
+        {track ? (
+          <label className="export-field">
+            <span>Music volume {Math.round(audioMix.musicVolume * 100)}%</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={audioMix.musicVolume}
+              disabled={!canAdjust}
+              onChange={(event) => onAudioMixChange({ musicVolume: Number(event.target.value) })}
+            />
+          </label>
+        ) : null}
+      </div>
+
+      {track ? (
+        <div className="export-grid">
+          <label className="checkbox-field">
+            <input
+              type="checkbox"
+              checked={beatSync.enabled}
+              disabled={!canAdjust}
+              onChange={(event) => onBeatSyncChange({ enabled: event.target.checked })}
+            />
+            <span>Start each cut on a beat</span>
+          </label>
+          <label className="export-field">
+            <span>BPM (0 uses detected)</span>
+            <input
+              type="number"
+              min={0}
+              max={MAX_BPM}
+              step={0.5}
+              value={beatSync.bpm}
+              placeholder={analysis?.bpm ? String(analysis.bpm) : `${MIN_BPM}–${MAX_BPM}`}
+              disabled={!canAdjust || !beatSync.enabled}
+              onChange={(event) =>
+                onBeatSyncChange({ bpm: Math.max(0, Number(event.target.value) || 0) })
+              }
+            />
+          </label>
+          <label className="export-field">
+            <span>Beat offset (ms)</span>
+            <input
+              type="number"
+              step={10}
+              value={beatSync.offsetMs}
+              disabled={!canAdjust || !beatSync.enabled}
+              onChange={(event) =>
+                onBeatSyncChange({
+                  offsetMs: Number.isFinite(Number(event.target.value))
+                    ? Math.round(Number(event.target.value))
+                    : 0,
+                })
+              }
+            />
+          </label>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import type { CachedArticle } from "@/lib/articleCache";
+import { getArticleSourceLabel } from "@/lib/sources";
+
+interface CachedArticlesProps {
+  entries: CachedArticle[];
+  isBusy: boolean;
+  onOpen(entry: CachedArticle): void;
+  onRefresh?(entry: CachedArticle): void;
+  onRemove?(entry: CachedArticle): void;
+}
+
+const formatFetchedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+export default function CachedArticles({
+  entries,
+  isBusy,
+  onOpen,
+  onRefresh,
+  onRemove,
+}: CachedArticlesProps) {
+  if (!entries.length) {
+    return null;
+  }
+
+  return (
+    <details className="cached-articles">
+      <summary>Cached articles ({entries.length})</summary>
+      <ul>
+        {entries.map((entry) => (
+          <li key={entry.key}>
+            <div className="cached-article-body">
+              <strong dir="auto">{entry.title}</strong>
+              <span className="details">
+                {getArticleSourceLabel(entry.source)} · {entry.language.toUpperCase()}
+                {entry.revisionId !== null ? ` · rev ${entry.revisionId}` : ""} · fetched{" "}
+                {formatFetchedAt(entry.fetchedAt)}
+              </span>
+            </div>
+            <div className="cached-article-actions">
+              <button type="button" disabled={isBusy} onClick={() => onOpen(entry)}>
+                Open
+              </button>
+              {onRefresh && entry.source === "wikipedia" ? (
+                <button type="button" disabled={isBusy} onClick={() => onRefresh(entry)}>
+                  Refresh
+                </button>
+              ) : null}
+              {onRemove ? (
+                <button type="button" disabled={isBusy} onClick={() => onRemove(entry)}>
+                  Remove
+                </button>
+              ) : null}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
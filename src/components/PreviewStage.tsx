@@ -2,26 +2,77 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { KeywordMatch, TimelineItem } from "@/lib/text";
-import { DEFAULT_DURATIONS } from "@/lib/text";
+import { DEFAULT_DURATIONS, describeMatchKeyword } from "@/lib/text";
 import type { WikiArticle } from "@/lib/wiki";
+import { describeArticleRevision, describeArticleSource } from "@/lib/sources";
+import { formatSectionPath } from "@/lib/sections";
+import { getTextDirection, type TextDirection } from "@/lib/languages";
+import { segmentWords } from "@/lib/segmentation";
+import {
+  createAudioMixer,
+  renderAudioMix,
+  type AudioMixer,
+  type SoundEffect,
+} from "@/lib/audioMix";
+import { decodeAudioUrl } from "@/lib/audioTrack";
+import {
+  OFFLINE_AUDIO_SAMPLE_RATE,
+  parseBitrate,
+  renderOffline,
+  supportsOfflineAudio,
+  supportsOfflineRender,
+  type OfflineContainer,
+} from "@/lib/offlineRender";
+import {
+  buildStageSchedule,
+  DEFAULT_RENDER_FRAME_RATE,
+  easeInOut,
+  getFrameCount,
+  getScheduledSounds,
+  lerp,
+  RENDER_FRAME_RATES,
+  sampleStageFrame,
+  type FrameState,
+  type RenderFrameRate,
+  type StagePhase,
+} from "@/lib/stageFrames";
 import {
   CUSTOM_FONT_PRESET_ID,
   clampCenteredZoom,
   clampSpeedMultiplier,
+  clampTargetRuntime,
   MAX_CENTERED_ZOOM,
+  MAX_TARGET_RUNTIME_MS,
   MIN_CENTERED_ZOOM,
   resolveFontFamilies,
+  type SpeedRamp,
   type StagePreferences,
+  TARGET_RUNTIME_PRESETS_MS,
 } from "@/lib/settings";
-
-type StagePhase = "idle" | "intro" | "pan" | "zoom" | "highlight" | "hold" | "transition";
+import {
+  clampCutLimit,
+  clampRampScale,
+  formatRampKeyframes,
+  MAX_CUT_LIMIT_MS,
+  MAX_RAMP_SCALE,
+  MIN_RAMP_SCALE,
+  parseRampKeyframes,
+  SPEED_RAMP_CURVES,
+} from "@/lib/speedRamp";
 
 interface PreviewStageProps {
-  article: WikiArticle | null;
+  /** Loaded articles; each match names its article by `articleIndex`. */
+  articles: WikiArticle[];
   matches: KeywordMatch[];
   timeline: TimelineItem[];
   highlightColor: string;
   stagePreferences: StagePreferences;
+  /** Asks the idle stage to show a match; `nonce` repeats a jump to the same index. */
+  seekRequest?: { index: number; nonce: number } | null;
+  /** Music played in sync from the first cut; the timeline is already beat-aligned. */
+  audioUrl?: string | null;
+  /** Sound effect per staged cut, played as its transition starts. */
+  cutSounds?: SoundEffect[];
   onActiveMatchChange?(index: number | null): void;
   onStagePreferencesChange?(
     updater: (prev: StagePreferences) => StagePreferences
@@ -41,6 +92,9 @@ type PresetOption =
 
 type ResolutionOption = "auto" | "3840x2160" | "1920x1080" | "1280x720" | "1080x1920" | "1080x1080";
 
+/** Record the live playback, or step the schedule frame by frame offline. */
+type RenderMode = "realtime" | "offline";
+
 interface ExportSettings {
   webmName: string;
   mp4Name: string;
@@ -49,6 +103,10 @@ interface ExportSettings {
   preset: PresetOption;
   crf: number;
   resolution: ResolutionOption;
+  renderMode: RenderMode;
+  frameRate: RenderFrameRate;
+  /** Container the offline render writes; real-time recording is always WebM. */
+  container: OfflineContainer;
 }
 
 interface AnimationController {
@@ -57,19 +115,13 @@ interface AnimationController {
   cancelCallbacks: Array<() => void>;
 }
 
-interface FrameState {
-  scale: number;
-  offsetY: number;
-  highlightAlpha: number;
-}
-
 interface DrawContext extends FrameState {
   phase: StagePhase;
 }
 
 const CANVAS_WIDTH = 960;
 const CANVAS_HEIGHT = 540;
-const INTRO_DURATION = 240;
+const AUDIO_DRIFT_TOLERANCE_MS = 60;
 const BEFORE_SNIPPET_LIMIT = 80;
 const AFTER_SNIPPET_LIMIT = 80;
 const LINE_HEIGHT = 42;
@@ -89,6 +141,9 @@ const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
   preset: "medium",
   crf: 18,
   resolution: "auto",
+  renderMode: "offline",
+  frameRate: DEFAULT_RENDER_FRAME_RATE,
+  container: "mp4",
 };
 const PRESET_OPTIONS: PresetOption[] = [
   "ultrafast",
@@ -102,7 +157,7 @@ const PRESET_OPTIONS: PresetOption[] = [
   "veryslow",
 ];
 const RESOLUTION_OPTIONS: Array<{ value: ResolutionOption; label: string }> = [
-  { value: "auto", label: "Auto (use canvas size)" },
+  { value: "auto", label: "Auto (960x540)" },
   { value: "3840x2160", label: "2160p (4K 16:9)" },
   { value: "1920x1080", label: "1080p (16:9)" },
   { value: "1280x720", label: "720p (16:9)" },
@@ -110,6 +165,11 @@ const RESOLUTION_OPTIONS: Array<{ value: ResolutionOption; label: string }> = [
   { value: "1080x1080", label: "1080x1080 (Square 1:1)" },
 ];
 
+const CONTAINER_OPTIONS: Array<{ value: OfflineContainer; label: string }> = [
+  { value: "mp4", label: "MP4 (H.264, AV1 or VP9)" },
+  { value: "webm", label: "WebM (VP9 or VP8)" },
+];
+
 const SPEED_PRESETS = [0.35, 0.5, 0.75, 1, 1.25, 1.5, 2, 3];
 const CENTERED_ZOOM_PRESETS = [1, 1.15, 1.3, 1.5, 1.7, 1.9, 2.1];
 const MIN_STAGE_SPEED = 0.25;
@@ -133,9 +193,6 @@ interface RenderOptions {
   fonts: CanvasFonts;
 }
 
-const easeInOut = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
-const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
-
 type TokenType = "normal" | "highlight";
 
 interface Token {
@@ -161,6 +218,15 @@ const sanitizeFilename = (value: string, fallback: string, extension: string): s
   return `${cleaned}.${extension}`;
 };
 
+// "auto" keeps the reference stage size; presets are "WIDTHxHEIGHT".
+const getOutputSize = (resolution: ResolutionOption) => {
+  if (resolution === "auto") {
+    return { width: CANVAS_WIDTH, height: CANVAS_HEIGHT };
+  }
+  const [width, height] = resolution.split("x").map(Number);
+  return { width, height };
+};
+
 const ellipsisLeft = (text: string, limit: number) => {
   if (text.length <= limit) {
     return text;
@@ -177,25 +243,38 @@ const ellipsisRight = (text: string, limit: number) => {
   return `${sliced.trimEnd()}...`;
 };
 
-const tokenize = (text: string, type: TokenType): Token[] => {
+// Thai and CJK have no spaces, so words come from Intl.Segmenter there;
+// other languages still break on whitespace.
+const tokenize = (text: string, type: TokenType, language: string): Token[] => {
   if (type === "highlight") {
     return [{ text, type }];
   }
 
-  return text
-    .split(/(\s+)/)
-    .filter(Boolean)
-    .map((segment) => ({
-      text: segment,
-      type,
-    }));
+  return segmentWords(text, language).map((segment) => ({
+    text: segment.text,
+    type,
+  }));
 };
 
-const buildTokens = (before: string, target: string, after: string): Token[] => {
-  return [...tokenize(before, "normal"), ...tokenize(target, "highlight"), ...tokenize(after, "normal")];
+const buildTokens = (
+  before: string,
+  target: string,
+  after: string,
+  language: string
+): Token[] => {
+  return [
+    ...tokenize(before, "normal", language),
+    ...tokenize(target, "highlight", language),
+    ...tokenize(after, "normal", language),
+  ];
 };
 
-const wrapTokens = (ctx: CanvasRenderingContext2D, tokens: Token[], maxWidth: number): TokenLine[] => {
+const wrapTokens = (
+  ctx: CanvasRenderingContext2D,
+  tokens: Token[],
+  maxWidth: number,
+  language: string
+): TokenLine[] => {
   const lines: TokenLine[] = [];
   let current: TokenLine = [];
   let width = 0;
@@ -205,7 +284,8 @@ const wrapTokens = (ctx: CanvasRenderingContext2D, tokens: Token[], maxWidth: nu
       return;
     }
 
-    const segments = token.type === "highlight" ? [token] : tokenize(token.text, token.type);
+    const segments =
+      token.type === "highlight" ? [token] : tokenize(token.text, token.type, language);
 
     segments.forEach((segment) => {
       const textWidth = ctx.measureText(segment.text).width;
@@ -236,21 +316,74 @@ const wrapTokens = (ctx: CanvasRenderingContext2D, tokens: Token[], maxWidth: nu
 const measureLineWidth = (ctx: CanvasRenderingContext2D, line: TokenLine) =>
   line.reduce((total, token) => total + ctx.measureText(token.text).width, 0);
 
-const fillStageBackground = (ctx: CanvasRenderingContext2D, preferences: StagePreferences) => {
-  ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+interface PositionedToken extends Token {
+  x: number;
+  width: number;
+}
+
+// Lays a wrapped line out centred on the canvas. Right-to-left lines start at
+// the right edge and advance leftwards so logical order reads correctly.
+const layoutLine = (
+  ctx: CanvasRenderingContext2D,
+  line: TokenLine,
+  direction: TextDirection,
+  stageWidth: number
+): PositionedToken[] => {
+  const lineWidth = measureLineWidth(ctx, line);
+  let cursorX = direction === "rtl" ? (stageWidth + lineWidth) / 2 : (stageWidth - lineWidth) / 2;
+
+  return line.map((token) => {
+    const width = ctx.measureText(token.text).width;
+
+    if (direction === "rtl") {
+      cursorX -= width;
+      return { ...token, x: cursorX, width };
+    }
+
+    const positioned = { ...token, x: cursorX, width };
+    cursorX += width;
+    return positioned;
+  });
+};
+
+interface StageGeometry {
+  /** Drawable area in stage units, where the shorter side matches 960×540. */
+  width: number;
+  height: number;
+  /** Canvas pixels per stage unit. */
+  pixelScale: number;
+}
+
+// Layout, fonts and highlights are all in stage units; the base transform maps
+// them onto the canvas, so larger outputs are drawn natively instead of being
+// upscaled, and other aspect ratios get more room along their longer side.
+const beginStageFrame = (ctx: CanvasRenderingContext2D): StageGeometry => {
+  const { width, height } = ctx.canvas;
+  const pixelScale = Math.min(width / CANVAS_WIDTH, height / CANVAS_HEIGHT);
+  ctx.setTransform(pixelScale, 0, 0, pixelScale, 0, 0);
+  return { width: width / pixelScale, height: height / pixelScale, pixelScale };
+};
+
+const fillStageBackground = (
+  ctx: CanvasRenderingContext2D,
+  preferences: StagePreferences
+): StageGeometry => {
+  const stage = beginStageFrame(ctx);
+  ctx.clearRect(0, 0, stage.width, stage.height);
 
   const fallback = "#0f172a";
   const background = preferences.backgroundColor?.trim() || fallback;
   ctx.fillStyle = background;
-  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+  ctx.fillRect(0, 0, stage.width, stage.height);
 
   if (preferences.showBackground) {
-    const overlay = ctx.createLinearGradient(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    const overlay = ctx.createLinearGradient(0, 0, stage.width, stage.height);
     overlay.addColorStop(0, "rgba(255,255,255,0.06)");
     overlay.addColorStop(1, "rgba(0,0,0,0.32)");
     ctx.fillStyle = overlay;
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.fillRect(0, 0, stage.width, stage.height);
   }
+  return stage;
 };
 
 const drawPlaceholder = (
@@ -258,27 +391,29 @@ const drawPlaceholder = (
   message: string,
   renderOptions: RenderOptions
 ) => {
-  fillStageBackground(ctx, renderOptions.preferences);
+  const stage = fillStageBackground(ctx, renderOptions.preferences);
 
   ctx.fillStyle = "rgba(226,232,240,0.85)";
   ctx.font = renderOptions.fonts.text;
   ctx.textAlign = "center";
   ctx.textBaseline = "middle";
-  ctx.fillText(message, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+  ctx.fillText(message, stage.width / 2, stage.height / 2);
 };
 
 const drawMatchFrame = (
   ctx: CanvasRenderingContext2D,
-  article: WikiArticle,
+  articles: WikiArticle[],
   match: KeywordMatch,
   options: DrawContext,
   renderOptions: RenderOptions,
   matchIndex: number,
   totalMatches: number
 ) => {
-  fillStageBackground(ctx, renderOptions.preferences);
+  const stage = fillStageBackground(ctx, renderOptions.preferences);
   const { preferences, fonts } = renderOptions;
   const isCenteredMode = preferences.playbackMode === "centered";
+  // Each cut shows the article its match came from, title included.
+  const article = articles[match.articleIndex] ?? articles[0];
 
   const paragraph = article.paragraphs[match.paragraphIndex] ?? "";
   const beforeSource = paragraph.slice(0, match.start);
@@ -292,14 +427,17 @@ const drawMatchFrame = (
     ? ellipsisRight(afterSource, AFTER_SNIPPET_LIMIT)
     : afterSource;
 
+  const direction = getTextDirection(article.language);
+
   ctx.font = fonts.text;
   ctx.textBaseline = "top";
   ctx.textAlign = "left";
+  ctx.direction = direction;
 
-  const tokens = buildTokens(before, target, after);
-  const lines = wrapTokens(ctx, tokens, CANVAS_WIDTH - STAGE_PADDING_X * 2);
+  const tokens = buildTokens(before, target, after, article.language);
+  const lines = wrapTokens(ctx, tokens, stage.width - STAGE_PADDING_X * 2, article.language);
   const contentHeight = lines.length * LINE_HEIGHT;
-  const startY = (CANVAS_HEIGHT - contentHeight) / 2;
+  const startY = (stage.height - contentHeight) / 2;
 
   let highlightTop = Number.POSITIVE_INFINITY;
   let highlightBottom = Number.NEGATIVE_INFINITY;
@@ -307,21 +445,15 @@ const drawMatchFrame = (
   let highlightRight = Number.NEGATIVE_INFINITY;
 
   lines.forEach((line, lineIndex) => {
-    const lineWidth = measureLineWidth(ctx, line);
-    let cursorX = (CANVAS_WIDTH - lineWidth) / 2;
     const cursorY = startY + lineIndex * LINE_HEIGHT;
 
-    line.forEach((token) => {
-      const width = ctx.measureText(token.text).width;
-
-      if (token.type === "highlight") {
+    layoutLine(ctx, line, direction, stage.width).forEach(({ type, x, width }) => {
+      if (type === "highlight") {
         highlightTop = Math.min(highlightTop, cursorY - 6);
         highlightBottom = Math.max(highlightBottom, cursorY + LINE_HEIGHT + 6);
-        highlightLeft = Math.min(highlightLeft, cursorX - 8);
-        highlightRight = Math.max(highlightRight, cursorX + width + 8);
+        highlightLeft = Math.min(highlightLeft, x - 8);
+        highlightRight = Math.max(highlightRight, x + width + 8);
       }
-
-      cursorX += width;
     });
   });
 
@@ -334,52 +466,49 @@ const drawMatchFrame = (
     : startY + contentHeight / 2;
   const highlightMidX = hasHighlightHorizontal
     ? (highlightLeft + highlightRight) / 2
-    : CANVAS_WIDTH / 2;
+    : stage.width / 2;
   const [r, g, b] = hexToRgb(renderOptions.highlightColor);
 
   ctx.save();
   if (isCenteredMode) {
-    ctx.translate(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + options.offsetY);
+    ctx.translate(stage.width / 2, stage.height / 2 + options.offsetY);
     ctx.scale(options.scale, options.scale);
     ctx.translate(-highlightMidX, -highlightMidY);
   } else {
-    ctx.translate(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+    ctx.translate(stage.width / 2, stage.height / 2);
     ctx.translate(0, options.offsetY);
     ctx.scale(options.scale, options.scale);
-    ctx.translate(-CANVAS_WIDTH / 2, -CANVAS_HEIGHT / 2);
+    ctx.translate(-stage.width / 2, -stage.height / 2);
   }
   ctx.font = fonts.text;
   ctx.textBaseline = "top";
   ctx.textAlign = "left";
+  ctx.direction = direction;
 
   lines.forEach((line, lineIndex) => {
-    const lineWidth = measureLineWidth(ctx, line);
-    let cursorX = (CANVAS_WIDTH - lineWidth) / 2;
     const cursorY = startY + lineIndex * LINE_HEIGHT;
 
-    line.forEach((token) => {
-      const width = ctx.measureText(token.text).width;
-
+    layoutLine(ctx, line, direction, stage.width).forEach((token) => {
       if (token.type === "highlight") {
         const alpha = Math.max(0, Math.min(1, options.highlightAlpha));
         ctx.save();
         ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${0.28 * alpha})`;
-        ctx.fillRect(cursorX - 8, cursorY - 6, width + 16, LINE_HEIGHT + 12);
+        ctx.fillRect(token.x - 8, cursorY - 6, token.width + 16, LINE_HEIGHT + 12);
         ctx.shadowColor = `rgba(${r}, ${g}, ${b}, ${0.48 * alpha})`;
-        ctx.shadowBlur = 22 * alpha;
+        // Shadows ignore the transform, so the blur is scaled by hand.
+        ctx.shadowBlur = 22 * alpha * stage.pixelScale;
         ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${0.92})`;
-        ctx.fillText(token.text, cursorX, cursorY);
+        ctx.fillText(token.text, token.x, cursorY);
         ctx.restore();
       } else {
         ctx.fillStyle = "rgba(226,232,240,0.92)";
-        ctx.fillText(token.text, cursorX, cursorY);
+        ctx.fillText(token.text, token.x, cursorY);
       }
-
-      cursorX += width;
     });
   });
 
   ctx.restore();
+  ctx.direction = "ltr";
 
   if (!preferences.showOverlay) {
     return;
@@ -393,38 +522,36 @@ const drawMatchFrame = (
 
   ctx.font = fonts.subheader;
   ctx.fillStyle = "rgba(226,232,240,0.85)";
-  const keywordLabel = `Keyword: ${match.keyword}`;
+  const keywordLabel = `Keyword: ${describeMatchKeyword(match)}`;
   ctx.fillText(keywordLabel, 40, 78);
 
-  const paragraphLabel = `Paragraph ${match.paragraphIndex + 1}`;
-  ctx.fillText(paragraphLabel, 40, CANVAS_HEIGHT - 60);
+  const paragraphLabel = `${formatSectionPath(match.section)} · ¶${match.paragraphIndex + 1}`;
+  ctx.fillText(paragraphLabel, 40, stage.height - 60);
 
   ctx.textAlign = "right";
   ctx.fillStyle = "rgba(100,116,139,0.82)";
-  ctx.fillText(options.phase.toUpperCase(), CANVAS_WIDTH - 40, 46);
+  ctx.fillText(options.phase.toUpperCase(), stage.width - 40, 46);
 
   ctx.font = fonts.subheader;
   ctx.fillStyle = "rgba(148,163,184,0.75)";
-  ctx.fillText(article.title, CANVAS_WIDTH - 40, CANVAS_HEIGHT - 60);
+  ctx.fillText(article.title, stage.width - 40, stage.height - 60);
+
+  ctx.fillStyle = "rgba(100,116,139,0.82)";
+  ctx.fillText(describeArticleSource(article), stage.width - 40, stage.height - 34);
 };
 
-const buildFfmpegScript = (settings: ExportSettings) => {
+const buildFfmpegScript = (settings: ExportSettings, credit: string | null, hasAudio: boolean) => {
   const { webmName, mp4Name, preset, crf, videoBitrate, audioBitrate, resolution } = settings;
-  const filters = ["format=yuv420p"];
-
-  if (resolution !== "auto") {
-    const [width, height] = resolution.split("x");
-    filters.unshift(`scale=${width}:${height}:flags=lanczos`);
-  }
-
-  const filterChain = filters.join(",");
+  // The WebM is already recorded at the export resolution, so nothing is rescaled.
+  const filterChain = "format=yuv420p";
   const videoBitrateArg = videoBitrate ? ` -b:v ${videoBitrate}` : "";
-  const audioBitrateArg = audioBitrate ? ` -b:a ${audioBitrate}` : "";
+  // Exports without music or cut sounds have no audio stream to encode.
+  const audioArgs = hasAudio ? ` -c:a aac${audioBitrate ? ` -b:a ${audioBitrate}` : ""}` : " -an";
   const resolutionLabel = resolution === "auto" ? "canvas" : resolution;
 
   return `#!/bin/bash
 # Text Match CUT — convert WebM preview export to MP4 (H.264 + AAC)
-# Settings: preset=${preset}, crf=${crf}${videoBitrate ? `, video_bitrate=${videoBitrate}` : ""}${audioBitrate ? `, audio_bitrate=${audioBitrate}` : ""}, resolution=${resolutionLabel}
+${credit ? `# Source: ${credit}\n` : ""}# Settings: preset=${preset}, crf=${crf}${videoBitrate ? `, video_bitrate=${videoBitrate}` : ""}${hasAudio ? (audioBitrate ? `, audio_bitrate=${audioBitrate}` : "") : ", no audio"}, resolution=${resolutionLabel}
 set -e
 
 INPUT="${webmName}"
@@ -435,30 +562,37 @@ if [ ! -f "$INPUT" ]; then
   exit 1
 fi
 
-ffmpeg -i "$INPUT" -c:v libx264 -preset ${preset} -crf ${crf}${videoBitrateArg} -vf "${filterChain}" -c:a aac${audioBitrateArg} "$OUTPUT"
+ffmpeg -i "$INPUT" -c:v libx264 -preset ${preset} -crf ${crf}${videoBitrateArg} -vf "${filterChain}"${audioArgs} "$OUTPUT"
 
 echo "Done! Created $OUTPUT"
 
 # Windows / PowerShell equivalent:
-# ffmpeg -i "${webmName}" -c:v libx264 -preset ${preset} -crf ${crf}${videoBitrateArg} -vf "${filterChain}" -c:a aac${audioBitrateArg} "${mp4Name}"
+# ffmpeg -i "${webmName}" -c:v libx264 -preset ${preset} -crf ${crf}${videoBitrateArg} -vf "${filterChain}"${audioArgs} "${mp4Name}"
 `;
 };
 
 export default function PreviewStage({
-  article,
+  articles,
   matches,
   timeline,
   highlightColor,
   stagePreferences,
+  seekRequest = null,
+  audioUrl = null,
+  cutSounds = [],
   onActiveMatchChange,
   onStagePreferencesChange,
 }: PreviewStageProps) {
+  const article = articles[0] ?? null;
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const animationRef = useRef<AnimationController | null>(null);
   const recorderRef = useRef<MediaRecorder | null>(null);
   const recordingAbortRef = useRef(false);
   const recordingGateRef = useRef<{ promise: Promise<void>; resolve: () => void } | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const handledSeekRef = useRef<number | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const mixerRef = useRef<AudioMixer | null>(null);
 
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
   const [phaseLabel, setPhaseLabel] = useState<StagePhase>("idle");
@@ -468,6 +602,13 @@ export default function PreviewStage({
   const [hasExport, setHasExport] = useState(false);
   const [downloadUrl, setDownloadUrlState] = useState<string | null>(null);
   const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [exportHasAudio, setExportHasAudio] = useState(false);
+  const [exportedContainer, setExportedContainer] = useState<OfflineContainer>("webm");
+  const [exportSummary, setExportSummary] = useState<string | null>(null);
+  const [keyframeDraft, setKeyframeDraft] = useState<string | null>(null);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+  const [canRenderOffline, setCanRenderOffline] = useState(false);
+  const [canRenderOfflineAudio, setCanRenderOfflineAudio] = useState(false);
 
   const updateDownloadUrl = useCallback((value: string | null) => {
     setDownloadUrlState((prev) => {
@@ -501,6 +642,9 @@ export default function PreviewStage({
     const resolution = RESOLUTION_OPTIONS.some((option) => option.value === exportSettings.resolution)
       ? exportSettings.resolution
       : DEFAULT_EXPORT_SETTINGS.resolution;
+    const frameRate = RENDER_FRAME_RATES.includes(exportSettings.frameRate)
+      ? exportSettings.frameRate
+      : DEFAULT_EXPORT_SETTINGS.frameRate;
 
     return {
       webmName,
@@ -510,8 +654,13 @@ export default function PreviewStage({
       preset,
       crf: normalizedCrf,
       resolution,
+      renderMode: exportSettings.renderMode,
+      frameRate,
+      container: exportSettings.container === "webm" ? "webm" : "mp4",
     };
   }, [exportSettings]);
+  // The canvas is always the export size; CSS scales it down for the preview.
+  const stageSize = getOutputSize(resolvedSettings.resolution);
 
   function handleSettingsChange<K extends keyof ExportSettings>(
     key: K,
@@ -547,6 +696,14 @@ export default function PreviewStage({
     [isCenteredMode, stagePreferences.centeredZoomScale]
   );
   const canAdjustStage = Boolean(onStagePreferencesChange);
+  const schedule = useMemo(
+    () =>
+      buildStageSchedule(
+        matches.map((_, index) => timeline[index] ?? DEFAULT_DURATIONS),
+        { phases: stagePreferences.phases, isCenteredMode, baseScale: baseStageScale }
+      ),
+    [matches, timeline, stagePreferences.phases, isCenteredMode, baseStageScale]
+  );
   const showOverlay = stagePreferences.showOverlay;
 
   const renderOptions = useMemo<RenderOptions>(
@@ -631,7 +788,7 @@ export default function PreviewStage({
 
       drawMatchFrame(
         ctx,
-        article,
+        articles,
         matches[index],
         { scale: 1, offsetY: 0, highlightAlpha: 0, phase: "idle" },
         renderOptions,
@@ -639,7 +796,7 @@ export default function PreviewStage({
         matches.length
       );
     },
-    [article, matches, renderOptions]
+    [article, articles, matches, renderOptions]
   );
 
   useEffect(() => {
@@ -658,7 +815,21 @@ export default function PreviewStage({
     if (!isPlaying) {
       drawIdleFrame(activeIndex);
     }
-  }, [isPlaying, activeIndex, drawIdleFrame]);
+    // Resizing the canvas clears it, so the size is a dependency too.
+  }, [isPlaying, activeIndex, drawIdleFrame, stageSize.width, stageSize.height]);
+
+  useEffect(() => {
+    if (
+      !seekRequest ||
+      seekRequest.nonce === handledSeekRef.current ||
+      isPlaying ||
+      seekRequest.index >= matches.length
+    ) {
+      return;
+    }
+    handledSeekRef.current = seekRequest.nonce;
+    setActiveIndex(seekRequest.index);
+  }, [seekRequest, isPlaying, matches.length]);
 
   useEffect(() => {
     if (!article) {
@@ -737,6 +908,7 @@ export default function PreviewStage({
       animationRef.current = null;
     }
 
+    audioRef.current?.pause();
     setIsPlaying(false);
     setPhaseLabel("idle");
 
@@ -754,6 +926,23 @@ export default function PreviewStage({
     };
   }, [stopPlayback, updateDownloadUrl]);
 
+  useEffect(() => {
+    mixerRef.current?.setVolumes(stagePreferences.audioMix);
+  }, [stagePreferences.audioMix]);
+
+  // WebCodecs is only known in the browser, after hydration.
+  useEffect(() => {
+    setCanRenderOffline(supportsOfflineRender());
+    setCanRenderOfflineAudio(supportsOfflineAudio());
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      void mixerRef.current?.close();
+      mixerRef.current = null;
+    };
+  }, []);
+
   const handleStageSpeedChange = useCallback(
     (value: number) => {
       if (!onStagePreferencesChange) {
@@ -782,6 +971,47 @@ export default function PreviewStage({
     [onStagePreferencesChange, stopPlayback]
   );
 
+  const handleSpeedRampChange = useCallback(
+    (patch: Partial<SpeedRamp>) => {
+      if (!onStagePreferencesChange) {
+        return;
+      }
+      void stopPlayback(true);
+      onStagePreferencesChange((prev) => ({
+        ...prev,
+        speedRamp: { ...prev.speedRamp, ...patch },
+      }));
+    },
+    [onStagePreferencesChange, stopPlayback]
+  );
+
+  const handleTargetRuntimeChange = useCallback(
+    (value: number) => {
+      if (!onStagePreferencesChange) {
+        return;
+      }
+      void stopPlayback(true);
+      onStagePreferencesChange((prev) => ({
+        ...prev,
+        targetRuntimeMs: clampTargetRuntime(value),
+      }));
+    },
+    [onStagePreferencesChange, stopPlayback]
+  );
+
+  // Keyframes are edited as text and only applied once they parse.
+  const handleKeyframeDraftChange = (value: string) => {
+    setKeyframeDraft(value);
+    const keyframes = parseRampKeyframes(value);
+    if (keyframes) {
+      handleSpeedRampChange({ keyframes });
+    }
+  };
+
+  const speedRamp = stagePreferences.speedRamp;
+  const keyframeText = keyframeDraft ?? formatRampKeyframes(speedRamp.keyframes);
+  const keyframeError = keyframeDraft !== null && !parseRampKeyframes(keyframeDraft);
+
   const handleOverlayToggle = useCallback(() => {
     if (!onStagePreferencesChange) {
       return;
@@ -793,7 +1023,29 @@ export default function PreviewStage({
     }));
   }, [onStagePreferencesChange, stopPlayback]);
 
-  const startRecording = async (): Promise<boolean> => {
+  // The mixer is created on the first play, inside the click that starts it,
+  // because browsers only let a user gesture start an AudioContext.
+  const ensureMixer = async (): Promise<AudioMixer | null> => {
+    const needsAudio = Boolean(audioUrl) || cutSounds.some((sound) => sound !== "none");
+    if (!needsAudio || !audioRef.current || typeof AudioContext === "undefined") {
+      return mixerRef.current;
+    }
+
+    if (!mixerRef.current) {
+      try {
+        mixerRef.current = createAudioMixer(audioRef.current);
+      } catch {
+        setError("Audio is unavailable in this browser; the preview runs silently.");
+        return null;
+      }
+    }
+
+    mixerRef.current.setVolumes(stagePreferences.audioMix);
+    await mixerRef.current.context.resume();
+    return mixerRef.current;
+  };
+
+  const startRecording = async (audioTrack: MediaStreamTrack | null): Promise<boolean> => {
     const canvas = canvasRef.current;
     if (!canvas) {
       setError("Preview canvas is unavailable.");
@@ -815,12 +1067,16 @@ export default function PreviewStage({
     }
 
     const stream = canvasElement.captureStream(30);
+    if (audioTrack) {
+      stream.addTrack(audioTrack);
+    }
 
+    const audioCodec = audioTrack ? ",opus" : "";
     let preferredMime = "video/webm";
-    if (MediaRecorder.isTypeSupported("video/webm;codecs=vp9")) {
-      preferredMime = "video/webm;codecs=vp9";
-    } else if (MediaRecorder.isTypeSupported("video/webm;codecs=vp8")) {
-      preferredMime = "video/webm;codecs=vp8";
+    if (MediaRecorder.isTypeSupported(`video/webm;codecs=vp9${audioCodec}`)) {
+      preferredMime = `video/webm;codecs=vp9${audioCodec}`;
+    } else if (MediaRecorder.isTypeSupported(`video/webm;codecs=vp8${audioCodec}`)) {
+      preferredMime = `video/webm;codecs=vp8${audioCodec}`;
     }
 
     try {
@@ -854,6 +1110,9 @@ export default function PreviewStage({
       recorder.start();
       recorderRef.current = recorder;
       setIsRecording(true);
+      setExportHasAudio(Boolean(audioTrack));
+      setExportedContainer("webm");
+      setExportSummary(null);
       return true;
     } catch (captureError) {
       setError(
@@ -878,8 +1137,10 @@ export default function PreviewStage({
       return;
     }
 
+    const mixer = await ensureMixer();
+
     if (record) {
-      const started = await startRecording();
+      const started = await startRecording(mixer?.getRecordingTrack() ?? null);
       if (!started) {
         await stopPlayback(true);
         return;
@@ -895,6 +1156,16 @@ export default function PreviewStage({
     setIsPlaying(true);
     let currentState: FrameState = initialFrameState();
 
+    const audio = audioUrl ? audioRef.current : null;
+    if (audio) {
+      audio.currentTime = 0;
+      try {
+        await audio.play();
+      } catch {
+        setError("The music track could not be played; the preview runs silently.");
+      }
+    }
+
     const animateTo = async (
       target: Partial<FrameState>,
       durationMs: number,
@@ -917,7 +1188,7 @@ export default function PreviewStage({
         };
         drawMatchFrame(
           ctx,
-          article,
+          articles,
           match,
           { ...currentState, phase },
           renderOptions,
@@ -970,7 +1241,7 @@ export default function PreviewStage({
 
             drawMatchFrame(
               ctx,
-              article,
+              articles,
               match,
               { ...currentState, phase },
               renderOptions,
@@ -999,40 +1270,42 @@ export default function PreviewStage({
 
       currentState = initialFrameState();
 
-      const { phases } = stagePreferences;
-
       drawMatchFrame(
         ctx,
-        article,
+        articles,
         match,
-        { ...currentState, phase: phases.intro ? "intro" : "idle" },
+        { ...currentState, phase: stagePreferences.phases.intro ? "intro" : "idle" },
         renderOptions,
         index,
         matches.length
       );
 
-      const schedule = timeline[index] ?? DEFAULT_DURATIONS;
+      const segments = schedule.segments.filter((segment) => segment.matchIndex === index);
+      const cue = schedule.cues[index];
 
-      if (phases.intro && !isCenteredMode) {
-        await animateTo({ scale: 1, highlightAlpha: 0 }, INTRO_DURATION, "intro", match, index);
-      }
-      if (phases.pan && schedule.panMs > 0) {
-        await animateTo({ offsetY: -60 }, schedule.panMs, "pan", match, index);
-      }
-      if (phases.zoom && schedule.zoomMs > 0) {
-        await animateTo({ scale: 1.18 }, schedule.zoomMs, "zoom", match, index);
-      }
-      if (phases.highlight && schedule.highlightMs > 0) {
-        await animateTo({ highlightAlpha: 1 }, schedule.highlightMs, "highlight", match, index);
+      // Frames can run late, so move the music back to where this cut starts
+      // whenever the two drift apart noticeably.
+      if (audio && !audio.paused) {
+        const cutStartMs = segments[0]?.startMs ?? cue.timeMs;
+        if (Math.abs(audio.currentTime * 1000 - cutStartMs) > AUDIO_DRIFT_TOLERANCE_MS) {
+          audio.currentTime = cutStartMs / 1000;
+        }
       }
-      if (phases.hold && schedule.holdMs > 0) {
-        await animateTo({}, schedule.holdMs, "hold", match, index);
+
+      // The cut sound fires as the transition starts, or as the cut ends
+      // when the transition phase is off.
+      const playCue = () => mixer?.playEffect(cutSounds[index] ?? "none", cue.durationMs);
+      for (const segment of segments) {
+        if (controller.cancelled) {
+          break;
+        }
+        if (segment.phase === "transition") {
+          playCue();
+        }
+        await animateTo(segment.to, segment.durationMs, segment.phase, match, index);
       }
-      if (phases.transition && schedule.transitionMs > 0) {
-        const transitionTarget = isCenteredMode
-          ? { highlightAlpha: 0, offsetY: 0 }
-          : { highlightAlpha: 0, scale: 1, offsetY: 0 };
-        await animateTo(transitionTarget, schedule.transitionMs, "transition", match, index);
+      if (!segments.some((segment) => segment.phase === "transition") && !controller.cancelled) {
+        playCue();
       }
     }
 
@@ -1040,6 +1313,7 @@ export default function PreviewStage({
       await stopRecording(false);
     }
 
+    audio?.pause();
     setIsPlaying(false);
     setPhaseLabel("idle");
     controller.cancelCallbacks = [];
@@ -1059,12 +1333,116 @@ export default function PreviewStage({
     await stopPlayback(true);
   };
 
+  const renderOfflineExport = async () => {
+    const canvas = canvasRef.current;
+    const ctx = ensureContext();
+    if (!canvas || !ctx || !article || matches.length === 0) {
+      setError("Add at least one keyword match before exporting.");
+      return;
+    }
+
+    setError(null);
+    const controller = createController();
+    const { frameRate, container } = resolvedSettings;
+    const durationMs = (getFrameCount(schedule.durationMs, frameRate) * 1000) / frameRate;
+    setIsPlaying(true);
+    setIsRecording(true);
+    setRenderProgress(0);
+
+    try {
+      const sounds = getScheduledSounds(schedule, cutSounds);
+      const audioBuffer =
+        audioUrl || sounds.length
+          ? await renderAudioMix({
+              music: audioUrl ? await decodeAudioUrl(audioUrl, OFFLINE_AUDIO_SAMPLE_RATE) : null,
+              sounds,
+              settings: stagePreferences.audioMix,
+              durationMs,
+              sampleRate: OFFLINE_AUDIO_SAMPLE_RATE,
+            })
+          : null;
+
+      let lastPercent = 0;
+      const result = await renderOffline({
+        canvas,
+        container,
+        frameRate,
+        durationMs: schedule.durationMs,
+        drawFrame: (timeMs) => {
+          const frame = sampleStageFrame(schedule, timeMs);
+          if (frame) {
+            drawMatchFrame(
+              ctx,
+              articles,
+              matches[frame.matchIndex],
+              { ...frame.state, phase: frame.phase },
+              renderOptions,
+              frame.matchIndex,
+              matches.length
+            );
+          }
+        },
+        audio: audioBuffer,
+        videoBitrate: parseBitrate(resolvedSettings.videoBitrate),
+        audioBitrate: parseBitrate(resolvedSettings.audioBitrate),
+        onProgress: (frame, totalFrames) => {
+          const percent = Math.floor((frame / totalFrames) * 100);
+          if (percent !== lastPercent) {
+            lastPercent = percent;
+            setRenderProgress(percent);
+          }
+        },
+        isCancelled: () => controller.cancelled,
+      });
+
+      if (result) {
+        updateDownloadUrl(URL.createObjectURL(result.blob));
+        setExportHasAudio(result.hasAudio);
+        setExportedContainer(result.container);
+        setExportSummary(
+          `${result.codecName} ${result.width}×${result.height} at ${frameRate} fps${
+            result.hasAudio ? " with audio" : ""
+          }`
+        );
+      }
+    } catch (renderError) {
+      setError(
+        renderError instanceof Error
+          ? `Offline render failed: ${renderError.message}`
+          : "Offline render failed."
+      );
+    } finally {
+      if (animationRef.current === controller) {
+        animationRef.current = null;
+      }
+      setRenderProgress(null);
+      setIsRecording(false);
+      setIsPlaying(false);
+      drawIdleFrame(activeIndex);
+    }
+  };
+
+  // Without a WebCodecs video encoder, or without an audio one for a project
+  // with sound, exports fall back to recording a WebM in real time.
+  const hasExportAudio = Boolean(audioUrl) || cutSounds.some((sound) => sound !== "none");
+  const willRenderOffline =
+    resolvedSettings.renderMode === "offline" &&
+    canRenderOffline &&
+    (canRenderOfflineAudio || !hasExportAudio);
+  const exportFormat: OfflineContainer = willRenderOffline ? resolvedSettings.container : "webm";
+  const exportedName =
+    exportedContainer === "mp4" ? resolvedSettings.mp4Name : resolvedSettings.webmName;
+
   const handleExport = async () => {
     if (isRecording) {
       return;
     }
     await stopPlayback(true);
-    void startAnimation(true);
+    if (willRenderOffline) {
+      void renderOfflineExport();
+    } else {
+      void startAnimation(true);
+    }
   };
 
   const handleDownload = () => {
@@ -1074,12 +1452,20 @@ export default function PreviewStage({
 
     const anchor = document.createElement("a");
     anchor.href = downloadUrl;
-    anchor.download = resolvedSettings.webmName;
+    anchor.download = exportedName;
     anchor.click();
   };
 
   const handleDownloadFfmpegScript = () => {
-    const script = buildFfmpegScript(resolvedSettings);
+    const credit = articles.length
+      ? articles
+          .map((entry) => {
+            const revision = describeArticleRevision(entry);
+            return `${entry.title} — ${describeArticleSource(entry)}${revision ? `, ${revision}` : ""}`;
+          })
+          .join("; ")
+      : null;
+    const script = buildFfmpegScript(resolvedSettings, credit, exportHasAudio);
     const blob = new Blob([script], { type: "text/x-shellscript" });
     const url = URL.createObjectURL(blob);
     const anchor = document.createElement("a");
@@ -1098,15 +1484,22 @@ export default function PreviewStage({
       <div className="stage-canvas-wrapper">
         <canvas
           ref={canvasRef}
-          width={CANVAS_WIDTH}
-          height={CANVAS_HEIGHT}
+          width={stageSize.width}
+          height={stageSize.height}
           aria-label="Match cut preview canvas"
         />
+        <audio ref={audioRef} src={audioUrl ?? undefined} preload="auto" />
       </div>
 
       <div className="stage-controls">
         <div className="stage-status">
-          <span>{isPlaying ? `Playing (${phaseLabel})` : "Idle"}</span>
+          <span>
+            {renderProgress !== null
+              ? `Rendering ${renderProgress}%`
+              : isPlaying
+                ? `Playing (${phaseLabel})`
+                : "Idle"}
+          </span>
           {isRecording ? <span className="stage-recording">REC</span> : null}
         </div>
 
@@ -1122,7 +1515,7 @@ export default function PreviewStage({
             onClick={handleExport}
             disabled={matches.length === 0 || isRecording || isPlaying}
           >
-            Export WebM
+            Export {exportFormat.toUpperCase()}
           </button>
       </div>
       </div>
@@ -1176,6 +1569,157 @@ export default function PreviewStage({
           </div>
         </div>
 
+        <div className="stage-tuner">
+          <div className="stage-tuner-header">
+            <span>Target runtime</span>
+            <span>
+              {stagePreferences.targetRuntimeMs
+                ? `${stagePreferences.targetRuntimeMs / 1000} s`
+                : "Natural length"}
+            </span>
+          </div>
+          <label className="export-field">
+            <span>Seconds (0 to turn off)</span>
+            <input
+              type="number"
+              min={0}
+              max={MAX_TARGET_RUNTIME_MS / 1000}
+              step={0.5}
+              value={stagePreferences.targetRuntimeMs / 1000}
+              disabled={!canAdjustStage}
+              onChange={(event) =>
+                handleTargetRuntimeChange(Number(event.target.value) * 1000)
+              }
+            />
+          </label>
+          <div className="stage-preset-row">
+            {[0, ...TARGET_RUNTIME_PRESETS_MS].map((preset) => {
+              const isActive = stagePreferences.targetRuntimeMs === preset;
+              return (
+                <button
+                  key={preset}
+                  type="button"
+                  className={`timeline-pill ${isActive ? "is-enabled" : "is-disabled"}`}
+                  disabled={!canAdjustStage || isActive}
+                  onClick={() => handleTargetRuntimeChange(preset)}
+                >
+                  {preset ? `${preset / 1000} s` : "Off"}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="stage-tuner">
+          <div className="stage-tuner-header">
+            <span>Speed ramp</span>
+            <span>
+              {speedRamp.curve === "none"
+                ? "Off"
+                : SPEED_RAMP_CURVES.find((option) => option.value === speedRamp.curve)?.label}
+            </span>
+          </div>
+          <div className="export-grid">
+            <label className="export-field">
+              <span>Curve</span>
+              <select
+                value={speedRamp.curve}
+                disabled={!canAdjustStage}
+                onChange={(event) =>
+                  handleSpeedRampChange({ curve: event.target.value as SpeedRamp["curve"] })
+                }
+              >
+                {SPEED_RAMP_CURVES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {speedRamp.curve === "linear" || speedRamp.curve === "exponential" ? (
+              <>
+                <label className="export-field">
+                  <span>First cut ×</span>
+                  <input
+                    type="number"
+                    min={MIN_RAMP_SCALE}
+                    max={MAX_RAMP_SCALE}
+                    step={0.1}
+                    value={speedRamp.startScale}
+                    disabled={!canAdjustStage}
+                    onChange={(event) =>
+                      handleSpeedRampChange({
+                        startScale: clampRampScale(Number(event.target.value)),
+                      })
+                    }
+                  />
+                </label>
+                <label className="export-field">
+                  <span>Last cut ×</span>
+                  <input
+                    type="number"
+                    min={MIN_RAMP_SCALE}
+                    max={MAX_RAMP_SCALE}
+                    step={0.1}
+                    value={speedRamp.endScale}
+                    disabled={!canAdjustStage}
+                    onChange={(event) =>
+                      handleSpeedRampChange({
+                        endScale: clampRampScale(Number(event.target.value)),
+                      })
+                    }
+                  />
+                </label>
+              </>
+            ) : null}
+            {speedRamp.curve === "keyframes" ? (
+              <label className="export-field">
+                <span>Keyframes (position:scale)</span>
+                <input
+                  value={keyframeText}
+                  disabled={!canAdjustStage}
+                  aria-invalid={keyframeError}
+                  onChange={(event) => handleKeyframeDraftChange(event.target.value)}
+                  onBlur={() => setKeyframeDraft(null)}
+                />
+                {keyframeError ? (
+                  <span className="field-error">
+                    Use pairs like 0:1.6, 0.6:0.8, 1:0.3 with positions from 0 to 1.
+                  </span>
+                ) : null}
+              </label>
+            ) : null}
+            <label className="export-field">
+              <span>Min per cut (ms)</span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_CUT_LIMIT_MS}
+                step={50}
+                value={speedRamp.minCutMs}
+                disabled={!canAdjustStage}
+                onChange={(event) =>
+                  handleSpeedRampChange({ minCutMs: clampCutLimit(Number(event.target.value)) })
+                }
+              />
+            </label>
+            <label className="export-field">
+              <span>Max per cut (ms)</span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_CUT_LIMIT_MS}
+                step={50}
+                value={speedRamp.maxCutMs}
+                disabled={!canAdjustStage}
+                onChange={(event) =>
+                  handleSpeedRampChange({ maxCutMs: clampCutLimit(Number(event.target.value)) })
+                }
+              />
+            </label>
+          </div>
+        </div>
+
         {isCenteredMode ? (
           <div className="stage-tuner">
             <div className="stage-tuner-header">
@@ -1219,6 +1763,58 @@ export default function PreviewStage({
         </div>
 
         <div className="export-grid">
+          <label className="export-field">
+            <span>Render</span>
+            <select
+              value={exportSettings.renderMode}
+              onChange={(event) =>
+                handleSettingsChange("renderMode", event.target.value as RenderMode)
+              }
+            >
+              <option value="realtime">Real time (record playback)</option>
+              <option value="offline" disabled={!canRenderOffline}>
+                Frame-accurate (offline)
+              </option>
+            </select>
+          </label>
+
+          {exportSettings.renderMode === "offline" ? (
+            <label className="export-field">
+              <span>Format</span>
+              <select
+                value={exportSettings.container}
+                disabled={!canRenderOffline}
+                onChange={(event) =>
+                  handleSettingsChange("container", event.target.value as OfflineContainer)
+                }
+              >
+                {CONTAINER_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
+          {exportSettings.renderMode === "offline" ? (
+            <label className="export-field">
+              <span>Frame rate</span>
+              <select
+                value={exportSettings.frameRate}
+                onChange={(event) =>
+                  handleSettingsChange("frameRate", Number(event.target.value) as RenderFrameRate)
+                }
+              >
+                {RENDER_FRAME_RATES.map((rate) => (
+                  <option key={rate} value={rate}>
+                    {rate} fps
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
           <label className="export-field">
             <span>WebM filename</span>
             <input
@@ -1307,18 +1903,34 @@ export default function PreviewStage({
             onClick={handleDownload}
             disabled={!hasExport}
           >
-            {hasExport ? `Download ${resolvedSettings.webmName}` : "Download WebM (export first)"}
-          </button>
-          <button
-            type="button"
-            className="download-button secondary"
-            onClick={handleDownloadFfmpegScript}
-          >
-            Download FFmpeg script
+            {hasExport
+              ? `Download ${exportedName}`
+              : `Download ${exportFormat.toUpperCase()} (export first)`}
           </button>
+          {exportFormat === "webm" || (hasExport && exportedContainer === "webm") ? (
+            <button
+              type="button"
+              className="download-button secondary"
+              onClick={handleDownloadFfmpegScript}
+            >
+              Download FFmpeg script
+            </button>
+          ) : null}
         </div>
 
-        {!hasExport ? (
+        {hasExport && exportSummary ? <p className="stage-hint">Encoded {exportSummary}.</p> : null}
+
+        {exportSettings.renderMode === "offline" ? (
+          <p className="stage-hint">
+            {willRenderOffline
+              ? `Frame-accurate exports step every frame from the timeline instead of the clock, so they never drop frames and the same project always renders the same file. The video bitrate and resolution are applied in the browser; preset and CRF only affect the FFmpeg script.`
+              : canRenderOffline
+                ? "This browser cannot encode audio with WebCodecs, so projects with music or cut sounds are recorded to WebM in real time; the FFmpeg script converts it to MP4."
+                : "Frame-accurate export needs WebCodecs, which this browser does not support; a WebM is recorded in real time instead and the FFmpeg script converts it to MP4."}
+          </p>
+        ) : null}
+
+        {!hasExport && exportFormat === "webm" ? (
           <p className="stage-hint">
             Export to WebM before downloading the file. The FFmpeg script references {resolvedSettings.webmName} and can be saved anytime.
           </p>
@@ -0,0 +1,43 @@
+"use client";
+
+import { PROJECT_FILE_ACCEPT } from "@/lib/project";
+
+interface ProjectControlsProps {
+  canSave: boolean;
+  isBusy: boolean;
+  onSave(): void;
+  onOpen(file: File): void;
+}
+
+export default function ProjectControls({
+  canSave,
+  isBusy,
+  onSave,
+  onOpen,
+}: ProjectControlsProps) {
+  return (
+    <div className="project-controls">
+      <button type="button" onClick={onSave} disabled={!canSave || isBusy}>
+        Save project
+      </button>
+      <label className={`project-open${isBusy ? " is-disabled" : ""}`}>
+        <span>Open project</span>
+        <input
+          type="file"
+          accept={PROJECT_FILE_ACCEPT}
+          disabled={isBusy}
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) {
+              onOpen(file);
+            }
+            event.target.value = "";
+          }}
+        />
+      </label>
+      <span className="project-hint">
+        Projects pin the article revision so re-renders produce the same frames.
+      </span>
+    </div>
+  );
+}
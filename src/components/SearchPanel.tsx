@@ -1,7 +1,49 @@
 "use client";
 
 import { useMemo, useState } from "react";
-import type { SupportedLanguage } from "@/lib/wiki";
+import type { SupportedLanguage, WikiSearchCandidate } from "@/lib/wiki";
+import type { ArticleSourceId } from "@/lib/sources";
+import type { CachedArticle } from "@/lib/articleCache";
+import CachedArticles from "@/components/CachedArticles";
+import ArticleDiscovery from "@/components/ArticleDiscovery";
+import { PASTED_TEXT_FILE_ACCEPT, titleFromFilename } from "@/lib/pastedText";
+import {
+  KEYWORD_SYNTAX_HINT,
+  listSearchableKeywords,
+  parseKeywords,
+  setKeywordMode,
+} from "@/lib/matching";
+import { clampFuzzyThreshold, DEFAULT_FUZZY_THRESHOLD, MIN_FUZZY_THRESHOLD } from "@/lib/fuzzy";
+import { supportsWordForms } from "@/lib/stemmer";
+import {
+  ARTICLE_MODE_OPTIONS,
+  clampArticleLimit,
+  DEFAULT_ARTICLE_LIMIT,
+  MAX_ARTICLE_LIMIT,
+  type ArticleMode,
+} from "@/lib/multiArticle";
+import {
+  clampPerKeywordCap,
+  createOrderingSeed,
+  getMatchOrderingOption,
+  MATCH_ORDERING_OPTIONS,
+  MAX_PER_KEYWORD_CAP,
+  type MatchOrdering,
+} from "@/lib/ordering";
+import {
+  DEFAULT_EXCLUDED_SECTIONS,
+  DEFAULT_PARAGRAPH_LIMIT,
+  MAX_PARAGRAPH_LIMIT,
+  clampParagraphLimit,
+  splitSectionNames,
+} from "@/lib/sections";
+import {
+  describeLanguage,
+  formatLanguageOption,
+  isKnownWikipediaLanguage,
+  listWikipediaLanguages,
+  normalizeLanguageCode,
+} from "@/lib/languages";
 import {
   CUSTOM_FONT_PRESET_ID,
   DEFAULT_STAGE_PREFERENCES,
@@ -20,18 +62,60 @@ import type {
 } from "@/lib/settings";
 
 export interface SearchPayload {
+  source: ArticleSourceId;
   topic: string;
+  /** Load one article, a list of topics, or the top search results for the keywords. */
+  articleMode: ArticleMode;
+  /** Further topics for the "topics" mode, one per line. */
+  extraTopics: string;
+  /** How many search results the "keyword-search" mode loads. */
+  articleLimit: number;
+  /** Articles picked from the full-text results in the "discover" mode. */
+  discoveredTitles: string[];
+  /** Wikipedia revision (oldid) to load instead of the latest text. */
+  revisionId: number | null;
+  pastedTitle: string;
+  pastedText: string;
   keywords: string;
+  /** Match ignoring accents, full-width forms and Thai tone marks. */
+  foldCharacters: boolean;
+  /** Minimum similarity for keywords marked "?" (fuzzy). */
+  fuzzyThreshold: number;
   language: SupportedLanguage;
   highlightColor: string;
   maxMatches: number;
+  matchOrdering: MatchOrdering;
+  /** Most matches kept per keyword; 0 keeps them all. */
+  perKeywordCap: number;
+  orderingSeed: number;
+  excludedSections: string;
+  paragraphLimit: number;
   stagePreferences: StagePreferences;
 }
 
+export interface CandidateGroup {
+  term: string;
+  candidates: WikiSearchCandidate[];
+}
+
+export interface DisambiguationChoice {
+  title: string;
+  links: string[];
+}
+
 interface SearchPanelProps {
   defaultPayload?: Partial<SearchPayload>;
   isBusy: boolean;
+  candidateGroups?: CandidateGroup[];
+  disambiguation?: DisambiguationChoice | null;
+  selectedTitle?: string | null;
+  cachedArticles?: CachedArticle[];
   onSubmit(payload: SearchPayload): void;
+  onOpenCached?(entry: CachedArticle, payload: SearchPayload): void;
+  onRefreshCached?(entry: CachedArticle, payload: SearchPayload): void;
+  onRemoveCached?(entry: CachedArticle): void;
+  onPickCandidate?(candidate: WikiSearchCandidate): void;
+  onPickDisambiguationLink?(title: string): void;
 }
 
 const MIN_SPEED = 0.25;
@@ -60,35 +144,102 @@ const CENTERED_ZOOM_PRESETS: Array<{ label: string; value: number }> = [
   { label: "2.1×", value: 2.1 },
 ];
 
+const PASTED_TEXT_EXTENSIONS = /\.(txt|md|markdown)$/i;
+
 const createDefaultPayload = (): SearchPayload => ({
+  source: "wikipedia",
   topic: "",
+  articleMode: "single",
+  extraTopics: "",
+  articleLimit: DEFAULT_ARTICLE_LIMIT,
+  discoveredTitles: [],
+  revisionId: null,
+  pastedTitle: "",
+  pastedText: "",
   keywords: "",
+  foldCharacters: false,
+  fuzzyThreshold: DEFAULT_FUZZY_THRESHOLD,
   language: "en",
   highlightColor: "#facc15",
   maxMatches: 25,
+  matchOrdering: "document",
+  perKeywordCap: 0,
+  orderingSeed: 1,
+  excludedSections: DEFAULT_EXCLUDED_SECTIONS.join(", "),
+  paragraphLimit: DEFAULT_PARAGRAPH_LIMIT,
   stagePreferences: cloneStagePreferences(),
 });
 
+export function createSearchPayload(partial?: Partial<SearchPayload>): SearchPayload {
+  const base = createDefaultPayload();
+
+  if (!partial) {
+    return base;
+  }
+
+  return {
+    ...base,
+    ...partial,
+    stagePreferences: cloneStagePreferences(
+      partial.stagePreferences ?? DEFAULT_STAGE_PREFERENCES
+    ),
+  };
+}
+
 export default function SearchPanel({
   defaultPayload,
   isBusy,
+  candidateGroups = [],
+  disambiguation = null,
+  selectedTitle = null,
+  cachedArticles = [],
   onSubmit,
+  onOpenCached,
+  onRefreshCached,
+  onRemoveCached,
+  onPickCandidate,
+  onPickDisambiguationLink,
 }: SearchPanelProps) {
-  const [form, setForm] = useState<SearchPayload>(() => {
-    const base = createDefaultPayload();
+  const [form, setForm] = useState<SearchPayload>(() =>
+    createSearchPayload(defaultPayload)
+  );
+  const [revisionInput, setRevisionInput] = useState(() =>
+    defaultPayload?.revisionId ? String(defaultPayload.revisionId) : ""
+  );
+  const [revisionError, setRevisionError] = useState<string | null>(null);
 
-    if (!defaultPayload) {
-      return base;
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [languageError, setLanguageError] = useState<string | null>(null);
+  const languageOptions = useMemo(() => listWikipediaLanguages(), []);
+  const languageHint = useMemo(() => {
+    const code = normalizeLanguageCode(form.language);
+    if (!code) {
+      return "Type a Wikipedia language code such as en, th, ja or de.";
     }
 
-    return {
-      ...base,
-      ...defaultPayload,
-      stagePreferences: cloneStagePreferences(
-        defaultPayload.stagePreferences ?? DEFAULT_STAGE_PREFERENCES
-      ),
-    };
-  });
+    const language = describeLanguage(code);
+    const label = formatLanguageOption(language);
+    const directionNote = language.direction === "rtl" ? " · right-to-left" : "";
+
+    return isKnownWikipediaLanguage(code)
+      ? `${label}${directionNote}`
+      : `${label}${directionNote} · not in the built-in list, make sure ${code}.wikipedia.org exists.`;
+  }, [form.language]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const parsedKeywords = useMemo(() => parseKeywords(form.keywords), [form.keywords]);
+  const keywordErrors = parsedKeywords.errors;
+  const discoveryLanguage = useMemo(() => normalizeLanguageCode(form.language), [form.language]);
+  const discoveryMatchOptions = useMemo(
+    () => ({ foldCharacters: form.foldCharacters, fuzzyThreshold: form.fuzzyThreshold }),
+    [form.foldCharacters, form.fuzzyThreshold]
+  );
+  const discoverySectionFilter = useMemo(
+    () => ({
+      excludedSections: splitSectionNames(form.excludedSections),
+      paragraphLimit: clampParagraphLimit(form.paragraphLimit),
+    }),
+    [form.excludedSections, form.paragraphLimit]
+  );
 
   const selectedFontPreset = useMemo(
     () => getFontPreset(form.stagePreferences.fontPreset),
@@ -127,17 +278,79 @@ export default function SearchPanel({
     }));
   }
 
-  function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+  async function loadTextFile(file: File) {
+    const isTextFile =
+      PASTED_TEXT_EXTENSIONS.test(file.name) ||
+      file.type === "text/plain" ||
+      file.type === "text/markdown";
+
+    if (!isTextFile) {
+      setFileError(`"${file.name}" is not a .txt or .md file.`);
+      return;
+    }
+
+    try {
+      const text = await file.text();
+      setFileError(null);
+      setForm((prev) => ({
+        ...prev,
+        pastedText: text,
+        pastedTitle: prev.pastedTitle.trim() ? prev.pastedTitle : titleFromFilename(file.name),
+      }));
+    } catch {
+      setFileError(`Unable to read "${file.name}".`);
+    }
+  }
+
+  function handleFileDrop(event: React.DragEvent<HTMLDivElement>) {
     event.preventDefault();
+    setIsDraggingFile(false);
 
+    const file = event.dataTransfer.files?.[0];
+    if (file) {
+      void loadTextFile(file);
+    }
+  }
+
+  function buildPayload(): SearchPayload | null {
     const payload: SearchPayload = {
       ...form,
       stagePreferences: cloneStagePreferences(form.stagePreferences),
     };
 
+    const language = normalizeLanguageCode(payload.language);
+    if (!language) {
+      setLanguageError(`"${payload.language}" is not a valid Wikipedia language code.`);
+      return null;
+    }
+    setLanguageError(null);
+
+    const revisionText = revisionInput.trim();
+    const revisionId = revisionText ? Number(revisionText) : null;
+    if (revisionId !== null && (!Number.isInteger(revisionId) || revisionId <= 0)) {
+      setRevisionError(`"${revisionText}" is not a valid revision ID.`);
+      return null;
+    }
+    setRevisionError(null);
+
+    if (keywordErrors.length) {
+      return null;
+    }
+
+    payload.revisionId =
+      payload.source === "wikipedia" && payload.articleMode === "single" ? revisionId : null;
+    payload.language = language;
     payload.topic = payload.topic.trim();
+    payload.extraTopics = payload.extraTopics.trim();
+    payload.articleLimit = clampArticleLimit(payload.articleLimit);
+    payload.pastedTitle = payload.pastedTitle.trim();
     payload.keywords = payload.keywords.trim();
     payload.maxMatches = Math.max(1, Math.min(200, payload.maxMatches));
+    payload.fuzzyThreshold = clampFuzzyThreshold(payload.fuzzyThreshold);
+    payload.perKeywordCap = clampPerKeywordCap(payload.perKeywordCap);
+    payload.orderingSeed = Math.max(0, Math.floor(payload.orderingSeed) || 0);
+    payload.excludedSections = payload.excludedSections.trim();
+    payload.paragraphLimit = clampParagraphLimit(payload.paragraphLimit);
     payload.stagePreferences.speedMultiplier = clampSpeedMultiplier(
       payload.stagePreferences.speedMultiplier
     );
@@ -149,45 +362,276 @@ export default function SearchPanel({
       payload.stagePreferences.centeredZoomScale
     );
 
-    onSubmit(payload);
+    return payload;
+  }
+
+  function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    const payload = buildPayload();
+    if (payload) {
+      onSubmit(payload);
+    }
+  }
+
+  function withPayload(callback?: (entry: CachedArticle, payload: SearchPayload) => void) {
+    return (entry: CachedArticle) => {
+      const payload = buildPayload();
+      if (payload && callback) {
+        callback(entry, payload);
+      }
+    };
   }
 
   return (
     <form className="panel" onSubmit={handleSubmit}>
       <div className="panel-grid">
         <label className="field">
-          <span>Topic (optional)</span>
-          <input
-            placeholder="Leave blank to auto-detect from keywords"
-            value={form.topic}
-            onChange={(event) => handleChange("topic", event.target.value)}
-          />
-          <span className="field-hint">
-            The app will try your keywords as backup search terms when this is empty.
-          </span>
+          <span>Article source</span>
+          <select
+            value={form.source}
+            onChange={(event) =>
+              handleChange("source", event.target.value as ArticleSourceId)
+            }
+          >
+            <option value="wikipedia">Wikipedia search</option>
+            <option value="text">Paste text / upload file</option>
+          </select>
         </label>
 
+        {form.source === "text" ? (
+          <label className="field">
+            <span>Title (optional)</span>
+            <input
+              placeholder="Defaults to the first heading or file name"
+              value={form.pastedTitle}
+              onChange={(event) => handleChange("pastedTitle", event.target.value)}
+            />
+          </label>
+        ) : (
+          <label className="field">
+            <span>Topic (optional)</span>
+            <input
+              placeholder="Leave blank to auto-detect from keywords"
+              value={form.topic}
+              onChange={(event) => handleChange("topic", event.target.value)}
+            />
+            <span className="field-hint">
+              The app will try your keywords as backup search terms when this is empty.
+            </span>
+          </label>
+        )}
+
+        {form.source === "wikipedia" ? (
+          <label className="field">
+            <span>Articles</span>
+            <select
+              value={form.articleMode}
+              onChange={(event) =>
+                handleChange("articleMode", event.target.value as ArticleMode)
+              }
+            >
+              {ARTICLE_MODE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <span className="field-hint">
+              Several articles give one timeline that jumps between pages sharing a word.
+            </span>
+          </label>
+        ) : null}
+
+        {form.source === "wikipedia" && form.articleMode === "topics" ? (
+          <label className="field">
+            <span>More topics</span>
+            <textarea
+              rows={3}
+              placeholder={"One topic per line, e.g.\nApollo 11\nMoon"}
+              value={form.extraTopics}
+              onChange={(event) => handleChange("extraTopics", event.target.value)}
+            />
+            <span className="field-hint">Loaded after the topic above, in this order.</span>
+          </label>
+        ) : null}
+
+        {form.source === "wikipedia" && form.articleMode === "keyword-search" ? (
+          <label className="field">
+            <span>Articles to load</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_ARTICLE_LIMIT}
+              value={form.articleLimit}
+              onChange={(event) => handleChange("articleLimit", Number(event.target.value))}
+            />
+            <span className="field-hint">
+              Top search results for your keywords, taking turns between keywords.
+            </span>
+          </label>
+        ) : null}
+
+        {form.source === "wikipedia" && form.articleMode === "discover" ? (
+          <div className="field">
+            <span>Articles containing</span>
+            <ArticleDiscovery
+              language={discoveryLanguage}
+              defaultQuery={listSearchableKeywords(form.keywords)[0] ?? ""}
+              keywords={form.keywords}
+              matchOptions={discoveryMatchOptions}
+              sectionFilter={discoverySectionFilter}
+              selectedTitles={form.discoveredTitles}
+              isBusy={isBusy}
+              onSelectionChange={(titles) => handleChange("discoveredTitles", titles)}
+            />
+            <span className="field-hint">
+              Searches article text, not just titles; hits count your keywords in each article.
+            </span>
+          </div>
+        ) : null}
+
+        {form.source === "wikipedia" && form.articleMode === "single" ? (
+          <label className="field">
+            <span>Revision ID (optional)</span>
+            <input
+              inputMode="numeric"
+              placeholder="Latest revision"
+              value={revisionInput}
+              onChange={(event) => {
+                setRevisionError(null);
+                setRevisionInput(event.target.value);
+              }}
+            />
+            {revisionError ? (
+              <span className="field-error">{revisionError}</span>
+            ) : (
+              <span className="field-hint">
+                Pin an exact oldid; the topic is then taken from that revision.
+              </span>
+            )}
+          </label>
+        ) : null}
+
         <label className="field">
           <span>Keywords / phrases</span>
           <textarea
             rows={3}
-            placeholder="Separate with commas or line breaks"
+            placeholder="e.g. colour, =cat, ^NASA, /colou?r/i"
             value={form.keywords}
             onChange={(event) => handleChange("keywords", event.target.value)}
           />
+          {keywordErrors.length ? (
+            keywordErrors.map((error) => (
+              <span key={error.raw} className="field-error">
+                {error.message}
+              </span>
+            ))
+          ) : (
+            <span className="field-hint">{KEYWORD_SYNTAX_HINT}</span>
+          )}
+        </label>
+
+        {parsedKeywords.specs.length ? (
+          <ul className="keyword-chips">
+            {parsedKeywords.specs.map((spec, index) => (
+              <li key={`${spec.raw}-${index}`}>
+                <code dir="auto">{spec.label}</code>
+                <label
+                  title={
+                    supportsWordForms(form.language)
+                      ? "Also match inflections such as runs, ran and running"
+                      : "Word forms use English rules; other languages match the exact word"
+                  }
+                >
+                  <input
+                    type="checkbox"
+                    checked={spec.mode === "forms"}
+                    disabled={spec.mode === "regex"}
+                    onChange={(event) =>
+                      handleChange(
+                        "keywords",
+                        setKeywordMode(
+                          form.keywords,
+                          spec.raw,
+                          event.target.checked ? "forms" : "text"
+                        )
+                      )
+                    }
+                  />
+                  <span>word forms</span>
+                </label>
+                <label title="Also match misspellings and alternative transliterations">
+                  <input
+                    type="checkbox"
+                    checked={spec.mode === "fuzzy"}
+                    disabled={spec.mode === "regex"}
+                    onChange={(event) =>
+                      handleChange(
+                        "keywords",
+                        setKeywordMode(
+                          form.keywords,
+                          spec.raw,
+                          event.target.checked ? "fuzzy" : "text"
+                        )
+                      )
+                    }
+                  />
+                  <span>typos</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        <label className="checkbox-field">
+          <input
+            type="checkbox"
+            checked={form.foldCharacters}
+            onChange={(event) => handleChange("foldCharacters", event.target.checked)}
+          />
+          <span>Ignore accents, full-width forms and tone marks</span>
+        </label>
+
+        <label className="field">
+          <span>Fuzzy similarity</span>
+          <input
+            type="range"
+            min={MIN_FUZZY_THRESHOLD}
+            max={1}
+            step={0.05}
+            value={form.fuzzyThreshold}
+            onChange={(event) => handleChange("fuzzyThreshold", Number(event.target.value))}
+          />
+          <span className="field-hint">
+            Keywords marked for typos match spellings at least{" "}
+            {Math.round(form.fuzzyThreshold * 100)}% similar.
+          </span>
         </label>
 
         <label className="field">
           <span>Language</span>
-          <select
+          <input
+            list="wiki-language-options"
+            placeholder="Search languages or type a code"
             value={form.language}
-            onChange={(event) =>
-              handleChange("language", event.target.value as SupportedLanguage)
-            }
-          >
-            <option value="en">English</option>
-            <option value="th">Thai (TH)</option>
-          </select>
+            onChange={(event) => {
+              setLanguageError(null);
+              handleChange("language", event.target.value as SupportedLanguage);
+            }}
+          />
+          <datalist id="wiki-language-options">
+            {languageOptions.map((language) => (
+              <option key={language.code} value={language.code}>
+                {formatLanguageOption(language)}
+              </option>
+            ))}
+          </datalist>
+          {languageError ? (
+            <span className="field-error">{languageError}</span>
+          ) : (
+            <span className="field-hint">{languageHint}</span>
+          )}
         </label>
 
         <label className="field">
@@ -214,6 +658,91 @@ export default function SearchPanel({
           />
         </label>
 
+        <label className="field">
+          <span>Match order</span>
+          <select
+            value={form.matchOrdering}
+            onChange={(event) =>
+              handleChange("matchOrdering", event.target.value as MatchOrdering)
+            }
+          >
+            {MATCH_ORDERING_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <span className="field-hint">
+            {getMatchOrderingOption(form.matchOrdering).description}
+          </span>
+        </label>
+
+        {form.matchOrdering === "random" ? (
+          <label className="field">
+            <span>Shuffle seed</span>
+            <div className="seed-control">
+              <input
+                type="number"
+                min={0}
+                value={form.orderingSeed}
+                onChange={(event) =>
+                  handleChange("orderingSeed", Number(event.target.value))
+                }
+              />
+              <button
+                type="button"
+                onClick={() => handleChange("orderingSeed", createOrderingSeed())}
+              >
+                New seed
+              </button>
+            </div>
+          </label>
+        ) : null}
+
+        <label className="field">
+          <span>Max per keyword</span>
+          <input
+            type="number"
+            min={0}
+            max={MAX_PER_KEYWORD_CAP}
+            value={form.perKeywordCap}
+            onChange={(event) =>
+              handleChange("perKeywordCap", Number(event.target.value))
+            }
+          />
+          <span className="field-hint">
+            0 keeps every match; capped keywords keep matches spread across the article.
+          </span>
+        </label>
+
+        <label className="field">
+          <span>Paragraph cap</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_PARAGRAPH_LIMIT}
+            value={form.paragraphLimit}
+            onChange={(event) =>
+              handleChange("paragraphLimit", Number(event.target.value))
+            }
+          />
+          <span className="field-hint">
+            Paragraphs considered for matching, counted after skipped sections.
+          </span>
+        </label>
+
+        <label className="field">
+          <span>Skip sections</span>
+          <input
+            placeholder="e.g. References, See also"
+            value={form.excludedSections}
+            onChange={(event) => handleChange("excludedSections", event.target.value)}
+          />
+          <span className="field-hint">
+            Headings to leave out before matching (subsections are skipped too).
+          </span>
+        </label>
+
         <label className="field">
           <span>Speed multiplier</span>
           <div className="speed-control">
@@ -281,6 +810,127 @@ export default function SearchPanel({
         </label>
       </div>
 
+      {form.source === "wikipedia" && candidateGroups.length > 0 ? (
+        <div className="panel-section">
+          <h3>Search results</h3>
+          {candidateGroups.map((group) => (
+            <div key={group.term} className="candidate-group">
+              <span className="candidate-term">
+                “{group.term}” ·{" "}
+                {group.candidates.length
+                  ? `${group.candidates.length} candidate${group.candidates.length > 1 ? "s" : ""}`
+                  : "no results"}
+              </span>
+              {group.candidates.length ? (
+                <ul className="candidate-list">
+                  {group.candidates.map((candidate) => {
+                    const isSelected = candidate.title === selectedTitle;
+
+                    return (
+                      <li key={candidate.title}>
+                        <button
+                          type="button"
+                          className={`candidate-button${isSelected ? " is-selected" : ""}`}
+                          disabled={isBusy || !onPickCandidate}
+                          onClick={() => onPickCandidate?.(candidate)}
+                        >
+                          <strong>{candidate.title}</strong>
+                          {candidate.isDisambiguation ? (
+                            <span className="candidate-badge">disambiguation</span>
+                          ) : null}
+                          {candidate.description ? (
+                            <span className="candidate-description">
+                              {candidate.description}
+                            </span>
+                          ) : null}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : null}
+            </div>
+          ))}
+
+          {disambiguation ? (
+            <div className="candidate-group">
+              <span className="candidate-term">
+                “{disambiguation.title}” is a disambiguation page. Pick an article:
+              </span>
+              {disambiguation.links.length ? (
+                <ul className="candidate-list">
+                  {disambiguation.links.map((link) => (
+                    <li key={link}>
+                      <button
+                        type="button"
+                        className={`candidate-button${link === selectedTitle ? " is-selected" : ""}`}
+                        disabled={isBusy || !onPickDisambiguationLink}
+                        onClick={() => onPickDisambiguationLink?.(link)}
+                      >
+                        <strong>{link}</strong>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <span className="field-hint">No linked articles found.</span>
+              )}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      <CachedArticles
+        entries={cachedArticles}
+        isBusy={isBusy}
+        onOpen={withPayload(onOpenCached)}
+        onRefresh={onRefreshCached ? withPayload(onRefreshCached) : undefined}
+        onRemove={onRemoveCached}
+      />
+
+      {form.source === "text" ? (
+        <div className="panel-section">
+          <h3>Article text</h3>
+          <div
+            className={`text-drop-zone${isDraggingFile ? " is-dragging" : ""}`}
+            onDragOver={(event) => {
+              event.preventDefault();
+              setIsDraggingFile(true);
+            }}
+            onDragLeave={() => setIsDraggingFile(false)}
+            onDrop={handleFileDrop}
+          >
+            <label className="field">
+              <span>Script, transcript or copy</span>
+              <textarea
+                rows={8}
+                placeholder="Paste text here, or drop a .txt / .md file"
+                value={form.pastedText}
+                onChange={(event) => handleChange("pastedText", event.target.value)}
+              />
+            </label>
+            <label className="field">
+              <span>Upload file</span>
+              <input
+                type="file"
+                accept={PASTED_TEXT_FILE_ACCEPT}
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) {
+                    void loadTextFile(file);
+                  }
+                  event.target.value = "";
+                }}
+              />
+              <span className="field-hint">
+                Markdown headings and lists are flattened into clean paragraphs.
+              </span>
+            </label>
+            {fileError ? <p className="field-error">{fileError}</p> : null}
+          </div>
+        </div>
+      ) : null}
+
       <div className="panel-section">
         <h3>Stage phases</h3>
         <div className="phase-grid">
@@ -1,6 +1,22 @@
 "use client";
 
-import type { KeywordMatch, TimelineItem } from "@/lib/text";
+import { useState } from "react";
+import {
+  describeMatchKeyword,
+  DURATION_KEYS,
+  describeTimelineFit,
+  formatRuntime,
+  getCutDuration,
+  getPhaseTotals,
+  getTimelineDuration,
+  MAX_DURATION_OVERRIDE_MS,
+  type DurationKey,
+  type TimelineItem,
+} from "@/lib/text";
+import { formatSectionPath } from "@/lib/sections";
+import type { TimelineCut } from "@/lib/curation";
+import { SOUND_EFFECT_OPTIONS, type SoundEffect } from "@/lib/audioMix";
+import { describeBeatSyncFit } from "@/lib/beats";
 
 interface StagePhaseToggles {
   intro: boolean;
@@ -12,21 +28,79 @@ interface StagePhaseToggles {
 }
 
 interface TimelineSummaryProps {
-  matches: KeywordMatch[];
+  /** Every cut, including disabled ones, in playback order. */
+  cuts: TimelineCut[];
+  /** Timeline for the enabled cuts only. */
   timeline: TimelineItem[];
+  /** `timeline` before beat sync moved its cuts; the target fit is judged on it. */
+  fittedTimeline?: TimelineItem[];
+  isBeatSynced?: boolean;
   speedMultiplier: number;
   stageToggles: StagePhaseToggles;
   activeIndex?: number | null;
+  /** How matches were ordered and capped, e.g. "round-robin by keyword". */
+  orderingLabel?: string | null;
+  /** Active speed ramp, e.g. "exponential ramp ×1.6 → ×0.4"; null when off. */
+  rampLabel?: string | null;
+  /** Runtime the timeline was fitted to, in ms; 0 when there is none. */
+  targetRuntimeMs?: number;
+  /** Titles of the loaded articles, indexed by `KeywordMatch.articleIndex`. */
+  articleTitles?: string[];
+  /** Sound of cuts that don't pick their own. */
+  defaultSound?: SoundEffect;
+  onToggleCut?(id: string, enabled: boolean): void;
+  onMoveCut?(fromIndex: number, toIndex: number): void;
+  onDuplicateCut?(id: string): void;
+  onJumpToCut?(id: string): void;
+  onSetCutDuration?(id: string, key: DurationKey, value: number | null): void;
+  onResetCutDurations?(id: string): void;
+  onSetCutSound?(id: string, sound: SoundEffect | null): void;
 }
 
+const PHASE_BY_DURATION: Record<DurationKey, keyof StagePhaseToggles> = {
+  introMs: "intro",
+  panMs: "pan",
+  zoomMs: "zoom",
+  highlightMs: "highlight",
+  holdMs: "hold",
+  transitionMs: "transition",
+};
+
 export default function TimelineSummary({
-  matches,
+  cuts,
   timeline,
+  fittedTimeline = timeline,
+  isBeatSynced = false,
   speedMultiplier,
   stageToggles,
   activeIndex = null,
+  orderingLabel = null,
+  rampLabel = null,
+  targetRuntimeMs = 0,
+  defaultSound = "none",
+  articleTitles = [],
+  onToggleCut,
+  onMoveCut,
+  onDuplicateCut,
+  onJumpToCut,
+  onSetCutDuration,
+  onResetCutDurations,
+  onSetCutSound,
 }: TimelineSummaryProps) {
-  if (!matches.length) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Phase bars share one scale so cut lengths can be compared at a glance.
+  const longestCut = Math.max(1, ...timeline.map(getCutDuration));
+  const phaseTotals = getPhaseTotals(timeline);
+  const fitWarning = describeTimelineFit(fittedTimeline, targetRuntimeMs);
+  const beatSyncNote =
+    isBeatSynced && targetRuntimeMs > 0 && timeline.length
+      ? describeBeatSyncFit(timeline, targetRuntimeMs)
+      : null;
+
+  if (!cuts.length) {
     return (
       <section className="timeline">
         <header>
@@ -42,8 +116,12 @@ export default function TimelineSummary({
       <header>
         <h2>Timeline</h2>
         <span className="meta">
-          {matches.length} match{matches.length > 1 ? "es" : ""} · speed ×
+          {timeline.length} of {cuts.length} cut{cuts.length > 1 ? "s" : ""} · speed ×
           {speedMultiplier.toFixed(2)}
+          {rampLabel ? ` · ${rampLabel}` : null}
+          {orderingLabel ? ` · ${orderingLabel}` : null}
+          {` · runtime ${formatRuntime(getTimelineDuration(timeline))}`}
+          {targetRuntimeMs > 0 ? ` of ${formatRuntime(targetRuntimeMs)} target` : null}
         </span>
       </header>
 
@@ -51,55 +129,237 @@ export default function TimelineSummary({
         {["intro", "pan", "zoom", "highlight", "hold", "transition"].map((phase) => {
           const key = phase as keyof StagePhaseToggles;
           const enabled = stageToggles[key];
+          const durationKey = DURATION_KEYS.find((entry) => PHASE_BY_DURATION[entry] === key);
 
           return (
             <span
               key={phase}
-              className={`timeline-pill ${enabled ? "is-enabled" : "is-disabled"}`}
+              className={`timeline-pill phase-${phase} ${enabled ? "is-enabled" : "is-disabled"}`}
             >
               {phase}
+              {durationKey && enabled ? (
+                <span className="timeline-pill-total">
+                  {formatRuntime(phaseTotals[durationKey])}
+                </span>
+              ) : null}
             </span>
           );
         })}
       </div>
 
+      {fitWarning ? <p className="timeline-warning">{fitWarning}</p> : null}
+      {beatSyncNote ? <p className="timeline-note">{beatSyncNote}</p> : null}
+
       <ol>
-        {timeline.map((item, index) => {
-          const isActive = activeIndex === index;
+        {cuts.map((cut, index) => {
+          const { match } = cut;
+          const stageIndex = cuts.slice(0, index).filter((entry) => entry.enabled).length;
+          const item = cut.enabled ? timeline[stageIndex] : undefined;
+          const isActive = Boolean(item) && activeIndex === stageIndex;
           const details: string[] = [
-            `Paragraph ${item.paragraphIndex + 1}`,
+            `${formatSectionPath(match.section)} · ¶${match.paragraphIndex + 1}`,
           ];
 
-          if (stageToggles.pan && item.panMs > 0) {
-            details.push(`pan ${Math.round(item.panMs)}ms`);
+          if (articleTitles.length > 1) {
+            details.unshift(articleTitles[match.articleIndex] ?? "Unknown article");
           }
 
-          if (stageToggles.zoom && item.zoomMs > 0) {
-            details.push(`zoom ${Math.round(item.zoomMs)}ms`);
+          if (match.score < 1) {
+            details.push(`${Math.round(match.score * 100)}% similar`);
           }
 
-          if (stageToggles.highlight && item.highlightMs > 0) {
-            details.push(`highlight ${Math.round(item.highlightMs)}ms`);
-          }
+          if (item) {
+            if (stageToggles.pan && item.panMs > 0) {
+              details.push(`pan ${Math.round(item.panMs)}ms`);
+            }
 
-          if (stageToggles.hold && item.holdMs > 0) {
-            details.push(`hold ${Math.round(item.holdMs)}ms`);
-          }
+            if (stageToggles.zoom && item.zoomMs > 0) {
+              details.push(`zoom ${Math.round(item.zoomMs)}ms`);
+            }
 
-          if (stageToggles.transition && item.transitionMs > 0) {
-            details.push(`transition ${Math.round(item.transitionMs)}ms`);
+            if (stageToggles.highlight && item.highlightMs > 0) {
+              details.push(`highlight ${Math.round(item.highlightMs)}ms`);
+            }
+
+            if (stageToggles.hold && item.holdMs > 0) {
+              details.push(`hold ${Math.round(item.holdMs)}ms`);
+            }
+
+            if (stageToggles.transition && item.transitionMs > 0) {
+              details.push(`transition ${Math.round(item.transitionMs)}ms`);
+            }
+
+            const sound = cut.sound ?? defaultSound;
+            if (sound !== "none") {
+              details.push(`${sound} sound`);
+            }
+          } else {
+            details.push("skipped");
           }
 
+          const classNames = [
+            isActive ? "is-active" : "",
+            cut.enabled ? "" : "is-skipped",
+            dropIndex === index && dragIndex !== index ? "is-drop-target" : "",
+          ].filter(Boolean);
+
           return (
             <li
-              key={`${item.keyword}-${index}`}
-              className={isActive ? "is-active" : undefined}
+              key={cut.id}
+              className={classNames.length ? classNames.join(" ") : undefined}
+              draggable={Boolean(onMoveCut)}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move";
+                setDragIndex(index);
+              }}
+              onDragOver={(event) => {
+                if (dragIndex === null) {
+                  return;
+                }
+                event.preventDefault();
+                setDropIndex(index);
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (dragIndex !== null) {
+                  onMoveCut?.(dragIndex, index);
+                }
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
             >
-              <span className="step-index">{index + 1}</span>
-            <div className="step-body">
-              <strong>{item.keyword}</strong>
+              <span className="step-index">{cut.enabled ? stageIndex + 1 : "–"}</span>
+              <div className="step-body">
+                <strong dir="auto">{describeMatchKeyword(match)}</strong>
                 <span className="details">{details.join(" · ")}</span>
-            </div>
+                {item ? (
+                  <div className="phase-bar" aria-hidden="true">
+                    {DURATION_KEYS.map((key) =>
+                      item[key] > 0 ? (
+                        <span
+                          key={key}
+                          className={`phase-segment phase-${PHASE_BY_DURATION[key]}${
+                            cut.overrides[key] !== undefined ? " is-overridden" : ""
+                          }`}
+                          style={{ width: `${(item[key] / longestCut) * 100}%` }}
+                          title={`${PHASE_BY_DURATION[key]} ${item[key]}ms`}
+                        />
+                      ) : null
+                    )}
+                  </div>
+                ) : null}
+              </div>
+              <div className="step-actions">
+                <label title={cut.enabled ? "Skip this cut" : "Include this cut"}>
+                  <input
+                    type="checkbox"
+                    checked={cut.enabled}
+                    onChange={(event) => onToggleCut?.(cut.id, event.target.checked)}
+                  />
+                </label>
+                <button
+                  type="button"
+                  title="Move up"
+                  disabled={index === 0}
+                  onClick={() => onMoveCut?.(index, index - 1)}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  title="Move down"
+                  disabled={index === cuts.length - 1}
+                  onClick={() => onMoveCut?.(index, index + 1)}
+                >
+                  ↓
+                </button>
+                <button type="button" title="Duplicate" onClick={() => onDuplicateCut?.(cut.id)}>
+                  Duplicate
+                </button>
+                <button
+                  type="button"
+                  title="Show this cut on the stage"
+                  disabled={!cut.enabled}
+                  onClick={() => onJumpToCut?.(cut.id)}
+                >
+                  Jump
+                </button>
+                <button
+                  type="button"
+                  title="Edit phase durations for this cut"
+                  disabled={!item}
+                  aria-expanded={editingId === cut.id}
+                  onClick={() => setEditingId(editingId === cut.id ? null : cut.id)}
+                >
+                  Timing
+                </button>
+              </div>
+              {item && editingId === cut.id ? (
+                <div className="cut-durations">
+                  {DURATION_KEYS.map((key) => {
+                    const phase = PHASE_BY_DURATION[key];
+                    const isOverridden = cut.overrides[key] !== undefined;
+
+                    return (
+                      <label key={key} className={isOverridden ? "is-overridden" : undefined}>
+                        <span>{phase}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          max={MAX_DURATION_OVERRIDE_MS}
+                          step={10}
+                          disabled={!stageToggles[phase]}
+                          value={item[key]}
+                          onChange={(event) =>
+                            onSetCutDuration?.(cut.id, key, Number(event.target.value))
+                          }
+                        />
+                        {isOverridden ? (
+                          <button
+                            type="button"
+                            title="Use the computed duration"
+                            onClick={() => onSetCutDuration?.(cut.id, key, null)}
+                          >
+                            Reset
+                          </button>
+                        ) : null}
+                      </label>
+                    );
+                  })}
+                  <label>
+                    <span>sound</span>
+                    <select
+                      value={cut.sound ?? "default"}
+                      onChange={(event) =>
+                        onSetCutSound?.(
+                          cut.id,
+                          event.target.value === "default"
+                            ? null
+                            : (event.target.value as SoundEffect)
+                        )
+                      }
+                    >
+                      <option value="default">Default ({defaultSound})</option>
+                      {SOUND_EFFECT_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    type="button"
+                    disabled={!Object.keys(cut.overrides).length}
+                    onClick={() => onResetCutDurations?.(cut.id)}
+                  >
+                    Reset all
+                  </button>
+                </div>
+              ) : null}
             </li>
           );
         })}
@@ -0,0 +1,171 @@
+import type { ArticleSourceId } from "./sources";
+import type { SupportedLanguage, WikiArticle } from "./wiki";
+
+export interface CachedArticle {
+  key: string;
+  source: ArticleSourceId;
+  language: SupportedLanguage;
+  title: string;
+  revisionId: number | null;
+  fetchedAt: number;
+  article: WikiArticle;
+}
+
+const DB_NAME = "text-match-cut";
+// Version 2 dropped TextExtracts text; older entries are cleared on upgrade.
+const DB_VERSION = 2;
+const ARTICLE_STORE = "articles";
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.resolve(null);
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase | null>((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(ARTICLE_STORE)) {
+          const store = database.createObjectStore(ARTICLE_STORE, { keyPath: "key" });
+          store.createIndex("fetchedAt", "fetchedAt");
+        } else {
+          request.transaction?.objectStore(ARTICLE_STORE).clear();
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      // A blocked or failing database only disables caching; searches still work.
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    });
+  }
+
+  return databasePromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  const database = await openDatabase();
+
+  if (!database) {
+    return null;
+  }
+
+  try {
+    const transaction = database.transaction(ARTICLE_STORE, mode);
+    return await requestToPromise(run(transaction.objectStore(ARTICLE_STORE)));
+  } catch {
+    return null;
+  }
+}
+
+// Titles are compared the way Wikipedia treats them: case-folded here, with
+// underscores and runs of whitespace read as single spaces.
+const normalizeTitle = (title: string) =>
+  title.replace(/[_\s]+/g, " ").trim().toLocaleLowerCase();
+
+export function createCacheKey(
+  source: ArticleSourceId,
+  language: SupportedLanguage,
+  title: string,
+  revisionId: number | null = null
+): string {
+  const key = `${source}:${language}:${normalizeTitle(title)}`;
+  return revisionId === null ? key : `${key}@${revisionId}`;
+}
+
+async function readEntry(key: string): Promise<CachedArticle | null> {
+  const entry = await withStore<CachedArticle | undefined>("readonly", (store) =>
+    store.get(key)
+  );
+  return entry ?? null;
+}
+
+/**
+ * Looks up the latest cached copy of an article, or a specific revision when
+ * `revisionId` is given. Pinned reads only ever use the pinned copy, so a
+ * project reloads from exactly what was stored for its revision.
+ */
+export async function readCachedArticle(
+  source: ArticleSourceId,
+  language: SupportedLanguage,
+  title: string,
+  revisionId: number | null = null
+): Promise<CachedArticle | null> {
+  return readEntry(createCacheKey(source, language, title, revisionId));
+}
+
+/**
+ * Finds a cached copy for a typed search term when the search itself cannot
+ * run. Searches usually resolve to a longer title ("einstein" to "Albert
+ * Einstein"), so after an exact title match this takes the most recently
+ * fetched article whose title contains every word of the term.
+ */
+export async function findCachedArticle(
+  source: ArticleSourceId,
+  language: SupportedLanguage,
+  term: string
+): Promise<CachedArticle | null> {
+  const latest = await readCachedArticle(source, language, term);
+  if (latest) {
+    return latest;
+  }
+
+  const title = normalizeTitle(term);
+  const words = title.split(" ");
+  const entries = (await listCachedArticles()).filter(
+    (entry) => entry.source === source && entry.language === language
+  );
+  return (
+    entries.find((entry) => normalizeTitle(entry.title) === title) ??
+    entries.find((entry) => {
+      const titleWords = normalizeTitle(entry.title).split(/[\s(),:]+/);
+      return words.every((word) => titleWords.includes(word));
+    }) ??
+    null
+  );
+}
+
+export async function writeCachedArticle(
+  article: WikiArticle,
+  pinned = false
+): Promise<CachedArticle> {
+  const entry: CachedArticle = {
+    key: createCacheKey(
+      article.source,
+      article.language,
+      article.title,
+      pinned ? article.revisionId : null
+    ),
+    source: article.source,
+    language: article.language,
+    title: article.title,
+    revisionId: article.revisionId,
+    fetchedAt: Date.now(),
+    article,
+  };
+
+  await withStore("readwrite", (store) => store.put(entry));
+  return entry;
+}
+
+export async function listCachedArticles(): Promise<CachedArticle[]> {
+  const entries = await withStore<CachedArticle[]>("readonly", (store) => store.getAll());
+  return (entries ?? []).sort((a, b) => b.fetchedAt - a.fetchedAt);
+}
+
+export async function deleteCachedArticle(key: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(key));
+}
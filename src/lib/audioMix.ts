@@ -0,0 +1,185 @@
+export type SoundEffect = "none" | "whoosh" | "click";
+
+export const SOUND_EFFECT_OPTIONS: Array<{ value: SoundEffect; label: string }> = [
+  { value: "none", label: "None" },
+  { value: "whoosh", label: "Whoosh" },
+  { value: "click", label: "Click" },
+];
+
+export interface AudioMixSettings {
+  /** 0–1; applied to the loaded music track. */
+  musicVolume: number;
+  /** 0–1; applied to every cut sound effect. */
+  effectsVolume: number;
+  /** Sound played on each cut unless the cut picks its own. */
+  cutSound: SoundEffect;
+}
+
+/**
+ * Web Audio graph shared by the preview and the recorder. Music and effects
+ * go to the speakers and, while recording, to a stream the recorder muxes
+ * with the canvas video, so exports sound exactly like the preview.
+ */
+export interface AudioMixer {
+  context: AudioContext;
+  setVolumes(settings: AudioMixSettings): void;
+  /** Plays an effect now; a whoosh is stretched to `durationMs`. */
+  playEffect(effect: SoundEffect, durationMs: number): void;
+  /** Audio track for `MediaRecorder`, carrying everything the mixer plays. */
+  getRecordingTrack(): MediaStreamTrack | null;
+  close(): Promise<void>;
+}
+
+export function clampVolume(value: number): number {
+  if (!Number.isFinite(value)) {
+    return 1;
+  }
+  return Math.min(1, Math.max(0, value));
+}
+
+/** A sound effect placed on the export clock. */
+export interface ScheduledSound {
+  effect: SoundEffect;
+  timeMs: number;
+  durationMs: number;
+}
+
+export interface AudioMixdownOptions {
+  music: AudioBuffer | null;
+  sounds: ScheduledSound[];
+  settings: AudioMixSettings;
+  durationMs: number;
+  sampleRate: number;
+}
+
+// Effects are synthesised, so there are no sample files to ship or license.
+// The noise is seeded so offline renders of the same project match exactly.
+const createNoiseBuffer = (context: BaseAudioContext, seconds: number): AudioBuffer => {
+  const length = Math.max(1, Math.round(context.sampleRate * seconds));
+  const buffer = context.createBuffer(1, length, context.sampleRate);
+  const data = buffer.getChannelData(0);
+  let state = 0x2545f491;
+  for (let index = 0; index < length; index += 1) {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    data[index] = (state / 4294967296) * 2 - 1;
+  }
+  return buffer;
+};
+
+const playWhoosh = (
+  context: BaseAudioContext,
+  output: AudioNode,
+  durationMs: number,
+  now = context.currentTime
+) => {
+  const seconds = Math.min(1.2, Math.max(0.2, durationMs / 1000));
+  const source = context.createBufferSource();
+  source.buffer = createNoiseBuffer(context, seconds);
+
+  const filter = context.createBiquadFilter();
+  filter.type = "bandpass";
+  filter.Q.value = 1.2;
+  filter.frequency.setValueAtTime(300, now);
+  filter.frequency.exponentialRampToValueAtTime(4000, now + seconds * 0.7);
+  filter.frequency.exponentialRampToValueAtTime(1200, now + seconds);
+
+  const envelope = context.createGain();
+  envelope.gain.setValueAtTime(0.0001, now);
+  envelope.gain.exponentialRampToValueAtTime(0.8, now + seconds * 0.6);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, now + seconds);
+
+  source.connect(filter).connect(envelope).connect(output);
+  source.start(now);
+  source.stop(now + seconds);
+};
+
+const playClick = (context: BaseAudioContext, output: AudioNode, now = context.currentTime) => {
+  const oscillator = context.createOscillator();
+  oscillator.type = "triangle";
+  oscillator.frequency.setValueAtTime(1800, now);
+  oscillator.frequency.exponentialRampToValueAtTime(600, now + 0.04);
+
+  const envelope = context.createGain();
+  envelope.gain.setValueAtTime(0.9, now);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, now + 0.06);
+
+  oscillator.connect(envelope).connect(output);
+  oscillator.start(now);
+  oscillator.stop(now + 0.07);
+};
+
+/** Builds the mixer around the stage's `<audio>` element, which it then owns. */
+export function createAudioMixer(element: HTMLAudioElement): AudioMixer {
+  const context = new AudioContext();
+  const master = context.createGain();
+  const musicGain = context.createGain();
+  const effectsGain = context.createGain();
+  const recording = context.createMediaStreamDestination();
+
+  // Once routed through Web Audio the element is only heard via this graph.
+  context.createMediaElementSource(element).connect(musicGain);
+  musicGain.connect(master);
+  effectsGain.connect(master);
+  master.connect(context.destination);
+  master.connect(recording);
+
+  return {
+    context,
+    setVolumes({ musicVolume, effectsVolume }) {
+      musicGain.gain.value = clampVolume(musicVolume);
+      effectsGain.gain.value = clampVolume(effectsVolume);
+    },
+    playEffect(effect, durationMs) {
+      if (effect === "whoosh") {
+        playWhoosh(context, effectsGain, durationMs);
+      } else if (effect === "click") {
+        playClick(context, effectsGain);
+      }
+    },
+    getRecordingTrack() {
+      return recording.stream.getAudioTracks()[0] ?? null;
+    },
+    close() {
+      return context.close();
+    },
+  };
+}
+
+/**
+ * Renders the music and the cut sounds to one stereo buffer without playing
+ * anything, so an offline export gets the same mix as a live recording.
+ */
+export async function renderAudioMix({
+  music,
+  sounds,
+  settings,
+  durationMs,
+  sampleRate,
+}: AudioMixdownOptions): Promise<AudioBuffer> {
+  const length = Math.max(1, Math.ceil((durationMs / 1000) * sampleRate));
+  const context = new OfflineAudioContext(2, length, sampleRate);
+  const musicGain = context.createGain();
+  const effectsGain = context.createGain();
+  musicGain.gain.value = clampVolume(settings.musicVolume);
+  effectsGain.gain.value = clampVolume(settings.effectsVolume);
+  musicGain.connect(context.destination);
+  effectsGain.connect(context.destination);
+
+  if (music) {
+    const source = context.createBufferSource();
+    source.buffer = music;
+    source.connect(musicGain);
+    source.start(0);
+  }
+
+  sounds.forEach(({ effect, timeMs, durationMs: effectMs }) => {
+    const when = timeMs / 1000;
+    if (effect === "whoosh") {
+      playWhoosh(context, effectsGain, effectMs, when);
+    } else if (effect === "click") {
+      playClick(context, effectsGain, when);
+    }
+  });
+
+  return context.startRendering();
+}
@@ -0,0 +1,63 @@
+import { clampBpm, detectBeats, mixToMono, type BeatAnalysis, type BeatGrid } from "./beats";
+import type { BeatSync } from "./settings";
+
+export const AUDIO_FILE_ACCEPT = "audio/*,.mp3,.wav,.ogg,.m4a,.flac";
+
+/** A local music file loaded for this session; it is not saved in projects. */
+export interface AudioTrack {
+  name: string;
+  /** Object URL the stage plays from; revoke it with `releaseAudioTrack`. */
+  url: string;
+  analysis: BeatAnalysis;
+}
+
+/** Decodes a local audio file and analyses its beats without any network access. */
+export async function loadAudioTrack(file: File): Promise<AudioTrack> {
+  const data = await file.arrayBuffer();
+  // An offline context decodes without needing a user gesture or an output device.
+  const context = new OfflineAudioContext(1, 1, 44100);
+
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(data);
+  } catch {
+    throw new Error(`"${file.name}" could not be decoded as audio.`);
+  }
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) =>
+    buffer.getChannelData(index)
+  );
+
+  return {
+    name: file.name,
+    url: URL.createObjectURL(file),
+    analysis: detectBeats(mixToMono(channels), buffer.sampleRate),
+  };
+}
+
+/** Decodes a track's object URL again at `sampleRate`, for an offline mixdown. */
+export async function decodeAudioUrl(url: string, sampleRate: number): Promise<AudioBuffer> {
+  const response = await fetch(url);
+  const context = new OfflineAudioContext(2, 1, sampleRate);
+  return context.decodeAudioData(await response.arrayBuffer());
+}
+
+export function releaseAudioTrack(track: AudioTrack | null): void {
+  if (track) {
+    URL.revokeObjectURL(track.url);
+  }
+}
+
+/** Beat grid from the detection, with the manual tempo and offset applied. */
+export function resolveBeatGrid(track: AudioTrack | null, beatSync: BeatSync): BeatGrid | null {
+  if (!track || !beatSync.enabled) {
+    return null;
+  }
+
+  const bpm = clampBpm(beatSync.bpm > 0 ? beatSync.bpm : track.analysis.bpm);
+  if (!bpm) {
+    return null;
+  }
+
+  return { bpm, offsetMs: track.analysis.offsetMs + beatSync.offsetMs };
+}
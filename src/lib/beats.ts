@@ -0,0 +1,264 @@
+import {
+  formatRuntime,
+  getCutDuration,
+  getTimelineDuration,
+  type DurationKey,
+  type TimelineItem,
+} from "./text";
+
+/** What `detectBeats` found in a track. */
+export interface BeatAnalysis {
+  bpm: number;
+  /** Time of the first beat of the grid, in ms. */
+  offsetMs: number;
+  /** Individual onsets (drum hits, note attacks), in ms. */
+  onsetsMs: number[];
+  durationMs: number;
+}
+
+export interface BeatGrid {
+  bpm: number;
+  offsetMs: number;
+}
+
+export const MIN_BPM = 40;
+export const MAX_BPM = 240;
+
+// Detection only searches a comfortable tempo range; slower or faster songs
+// land on half or double time, which cuts just as well.
+const DETECT_MIN_BPM = 70;
+const DETECT_MAX_BPM = 180;
+const HOP_MS = 10;
+
+export function clampBpm(value: number): number {
+  if (!Number.isFinite(value) || value <= 0) {
+    return 0;
+  }
+  return Math.min(MAX_BPM, Math.max(MIN_BPM, value));
+}
+
+/** Mixes every channel of a decoded buffer down to one. */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) {
+    return channels[0];
+  }
+
+  const length = Math.min(...channels.map((channel) => channel.length));
+  const mono = new Float32Array(length);
+  channels.forEach((channel) => {
+    for (let index = 0; index < length; index += 1) {
+      mono[index] += channel[index] / channels.length;
+    }
+  });
+  return mono;
+}
+
+// Rise in loudness per 10 ms hop; peaks are where notes and hits start.
+const getOnsetEnvelope = (samples: Float32Array, sampleRate: number): Float32Array => {
+  const hop = Math.max(1, Math.round((sampleRate * HOP_MS) / 1000));
+  const frames = Math.floor(samples.length / hop);
+  const envelope = new Float32Array(frames);
+  let previous = 0;
+
+  for (let frame = 0; frame < frames; frame += 1) {
+    let energy = 0;
+    for (let offset = frame * hop; offset < (frame + 1) * hop; offset += 1) {
+      energy += samples[offset] * samples[offset];
+    }
+    const level = Math.log1p(1000 * Math.sqrt(energy / hop));
+    envelope[frame] = Math.max(0, level - previous);
+    previous = level;
+  }
+
+  return envelope;
+};
+
+const pickOnsets = (envelope: Float32Array): number[] => {
+  const onsets: number[] = [];
+  const window = 10;
+  const minGapFrames = 10;
+
+  for (let frame = 1; frame < envelope.length - 1; frame += 1) {
+    const from = Math.max(0, frame - window);
+    const to = Math.min(envelope.length, frame + window + 1);
+    let sum = 0;
+    let isPeak = true;
+    for (let index = from; index < to; index += 1) {
+      sum += envelope[index];
+      if (envelope[index] > envelope[frame]) {
+        isPeak = false;
+      }
+    }
+
+    const threshold = (sum / (to - from)) * 1.5 + 0.05;
+    const lastOnset = onsets[onsets.length - 1];
+    if (
+      isPeak &&
+      envelope[frame] > threshold &&
+      (lastOnset === undefined || frame - lastOnset >= minGapFrames)
+    ) {
+      onsets.push(frame);
+    }
+  }
+
+  return onsets;
+};
+
+// Autocorrelation of the envelope, leaning towards ~120 BPM so half and
+// double time only win when they are clearly stronger.
+const estimatePeriod = (envelope: Float32Array): number | null => {
+  const minLag = Math.floor(60000 / DETECT_MAX_BPM / HOP_MS);
+  const maxLag = Math.ceil(60000 / DETECT_MIN_BPM / HOP_MS);
+  if (envelope.length <= maxLag * 2) {
+    return null;
+  }
+
+  const scores: number[] = [];
+  for (let lag = minLag; lag <= maxLag; lag += 1) {
+    let sum = 0;
+    for (let index = lag; index < envelope.length; index += 1) {
+      sum += envelope[index] * envelope[index - lag];
+    }
+    const bpm = 60000 / (lag * HOP_MS);
+    const preference = Math.exp(-0.5 * Math.log2(bpm / 120) ** 2);
+    scores.push((sum / (envelope.length - lag)) * preference);
+  }
+
+  let best = 0;
+  scores.forEach((score, index) => {
+    if (score > scores[best]) {
+      best = index;
+    }
+  });
+  if (scores[best] <= 0) {
+    return null;
+  }
+
+  // Parabolic interpolation between neighbouring lags for sub-hop precision.
+  const before = scores[best - 1] ?? scores[best];
+  const after = scores[best + 1] ?? scores[best];
+  const curvature = before - 2 * scores[best] + after;
+  const shift = curvature < 0 ? (0.5 * (before - after)) / curvature : 0;
+  return minLag + best + shift;
+};
+
+const estimatePhase = (envelope: Float32Array, period: number): number => {
+  let bestPhase = 0;
+  let bestScore = -1;
+
+  for (let phase = 0; phase < period; phase += 1) {
+    let score = 0;
+    for (let position = phase; position < envelope.length; position += period) {
+      score += envelope[Math.round(position)] ?? 0;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  return bestPhase;
+};
+
+/** Finds onsets, tempo and the first beat of a mono track, entirely offline. */
+export function detectBeats(samples: Float32Array, sampleRate: number): BeatAnalysis {
+  const envelope = getOnsetEnvelope(samples, sampleRate);
+  const period = estimatePeriod(envelope);
+
+  return {
+    bpm: period ? Math.round((60000 / (period * HOP_MS)) * 10) / 10 : 0,
+    offsetMs: period ? estimatePhase(envelope, period) * HOP_MS : 0,
+    onsetsMs: pickOnsets(envelope).map((frame) => frame * HOP_MS),
+    durationMs: Math.round((samples.length / sampleRate) * 1000),
+  };
+}
+
+/** First beat at or after `timeMs`; null when the grid has no tempo. */
+export function getNextBeat(grid: BeatGrid, timeMs: number): number | null {
+  const bpm = clampBpm(grid.bpm);
+  if (!bpm) {
+    return null;
+  }
+
+  const period = 60000 / bpm;
+  const beats = Math.ceil((timeMs - grid.offsetMs) / period - 1e-6);
+  return grid.offsetMs + Math.max(0, beats) * period;
+}
+
+/** Beat closest to `timeMs`, or the last one at or before it when `atOrBefore`. */
+const getBeatNear = (grid: BeatGrid, timeMs: number, atOrBefore: boolean): number => {
+  const period = 60000 / clampBpm(grid.bpm);
+  const position = (timeMs - grid.offsetMs) / period;
+  const beats = atOrBefore ? Math.floor(position + 1e-6) : Math.round(position);
+  return grid.offsetMs + Math.max(0, beats) * period;
+};
+
+// Phases that soak up the wait for the beat, most natural first.
+const PADDING_ORDER: DurationKey[] = ["holdMs", "highlightMs", "zoomMs", "panMs", "introMs"];
+
+/**
+ * Moves each cut's end onto a beat, so every new cut starts on one. The
+ * difference goes into the hold (or the nearest earlier phase that plays), so
+ * the transition itself keeps its speed.
+ *
+ * Without a target runtime cuts only grow, to the next beat. With one, each
+ * cut ends on the beat nearest where the fitted timeline ended it, which may
+ * shorten it, and the last cut ends on the last beat within the target; the
+ * runtime then stays within a beat of the target and only overshoots it when
+ * a cut has too little padding to give up.
+ */
+export function alignTimelineToBeats(
+  timeline: TimelineItem[],
+  grid: BeatGrid,
+  targetRuntimeMs = 0
+): TimelineItem[] {
+  if (!clampBpm(grid.bpm)) {
+    return timeline;
+  }
+
+  let fittedEndMs = 0;
+  let elapsedMs = 0;
+  return timeline.map((item, index) => {
+    const durationMs = getCutDuration(item);
+    fittedEndMs += durationMs;
+    const padKey = PADDING_ORDER.find((key) => item[key] > 0);
+    if (!padKey) {
+      elapsedMs += durationMs;
+      return item;
+    }
+
+    const isLast = index === timeline.length - 1;
+    let beatMs =
+      targetRuntimeMs > 0
+        ? getBeatNear(grid, isLast ? targetRuntimeMs : fittedEndMs, isLast)
+        : (getNextBeat(grid, elapsedMs + durationMs) ?? elapsedMs + durationMs);
+    // A cut can only give up what its padding phase holds; past that it waits
+    // for the next beat instead.
+    if (beatMs - elapsedMs < durationMs - item[padKey] + 1) {
+      beatMs = getNextBeat(grid, elapsedMs + durationMs - item[padKey] + 1) ?? beatMs;
+    }
+
+    const next = { ...item };
+    next[padKey] += Math.round(beatMs - elapsedMs - durationMs);
+    elapsedMs += getCutDuration(next);
+    return next;
+  });
+}
+
+/**
+ * Says how far beat sync moved the runtime off its target, or null when it
+ * still lands within a frame of it.
+ */
+export function describeBeatSyncFit(
+  timeline: TimelineItem[],
+  targetRuntimeMs: number
+): string | null {
+  const runtime = getTimelineDuration(timeline);
+  const difference = runtime - targetRuntimeMs;
+  if (!targetRuntimeMs || Math.abs(difference) <= 40) {
+    return null;
+  }
+  return `Beat sync ends the last cut on a beat at ${formatRuntime(runtime)}, ${formatRuntime(
+    Math.abs(difference)
+  )} ${difference > 0 ? "over" : "under"} the ${formatRuntime(targetRuntimeMs)} target.`;
+}
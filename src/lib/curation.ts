@@ -0,0 +1,134 @@
+import type { SoundEffect } from "./audioMix";
+import type { StagePreferences } from "./settings";
+import {
+  buildTimeline,
+  clampDurationOverride,
+  type DurationKey,
+  type DurationOverrides,
+  type KeywordMatch,
+  type TimelineItem,
+} from "./text";
+
+/** One entry of the editable timeline; disabled cuts stay listed but are not staged. */
+export interface TimelineCut {
+  id: string;
+  match: KeywordMatch;
+  enabled: boolean;
+  overrides: DurationOverrides;
+  /** Sound on this cut; null follows the stage's cut sound. */
+  sound: SoundEffect | null;
+}
+
+let nextCutId = 0;
+
+const createCutId = () => {
+  nextCutId += 1;
+  return `cut-${nextCutId}`;
+};
+
+export function createCuts(matches: KeywordMatch[]): TimelineCut[] {
+  return matches.map((match) => ({ id: createCutId(), match, enabled: true, overrides: {}, sound: null }));
+}
+
+export function getEnabledCuts(cuts: TimelineCut[]): TimelineCut[] {
+  return cuts.filter((cut) => cut.enabled);
+}
+
+export function getEnabledMatches(cuts: TimelineCut[]): KeywordMatch[] {
+  return getEnabledCuts(cuts).map((cut) => cut.match);
+}
+
+export function setCutEnabled(cuts: TimelineCut[], id: string, enabled: boolean): TimelineCut[] {
+  return cuts.map((cut) => (cut.id === id ? { ...cut, enabled } : cut));
+}
+
+export function moveCut(cuts: TimelineCut[], fromIndex: number, toIndex: number): TimelineCut[] {
+  if (
+    fromIndex === toIndex ||
+    fromIndex < 0 ||
+    fromIndex >= cuts.length ||
+    toIndex < 0 ||
+    toIndex >= cuts.length
+  ) {
+    return cuts;
+  }
+
+  const next = [...cuts];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, moved);
+  return next;
+}
+
+/** Inserts a copy right after the original so the same match plays twice. */
+export function duplicateCut(cuts: TimelineCut[], id: string): TimelineCut[] {
+  const index = cuts.findIndex((cut) => cut.id === id);
+  if (index === -1) {
+    return cuts;
+  }
+
+  const copy: TimelineCut = {
+    ...cuts[index],
+    id: createCutId(),
+    enabled: true,
+    overrides: { ...cuts[index].overrides },
+  };
+  return [...cuts.slice(0, index + 1), copy, ...cuts.slice(index + 1)];
+}
+
+/** Position of a cut among the enabled cuts, i.e. its index on the stage. */
+export function getStageIndex(cuts: TimelineCut[], id: string): number | null {
+  const index = getEnabledCuts(cuts).findIndex((cut) => cut.id === id);
+  return index === -1 ? null : index;
+}
+
+/** Sets one phase duration for a cut; `null` goes back to the computed value. */
+export function setCutDuration(
+  cuts: TimelineCut[],
+  id: string,
+  key: DurationKey,
+  value: number | null
+): TimelineCut[] {
+  return cuts.map((cut) => {
+    if (cut.id !== id) {
+      return cut;
+    }
+
+    const overrides = { ...cut.overrides };
+    if (value === null) {
+      delete overrides[key];
+    } else {
+      overrides[key] = clampDurationOverride(value);
+    }
+    return { ...cut, overrides };
+  });
+}
+
+export function clearCutDurations(cuts: TimelineCut[], id: string): TimelineCut[] {
+  return cuts.map((cut) => (cut.id === id ? { ...cut, overrides: {} } : cut));
+}
+
+export function setCutSound(
+  cuts: TimelineCut[],
+  id: string,
+  sound: SoundEffect | null
+): TimelineCut[] {
+  return cuts.map((cut) => (cut.id === id ? { ...cut, sound } : cut));
+}
+
+/** Sound for each enabled cut, in stage order, with the default filled in. */
+export function getCutSounds(cuts: TimelineCut[], defaultSound: SoundEffect): SoundEffect[] {
+  return getEnabledCuts(cuts).map((cut) => cut.sound ?? defaultSound);
+}
+
+/** Timeline for the enabled cuts, applying each cut's duration overrides. */
+export function buildCutTimeline(
+  cuts: TimelineCut[],
+  preferences: StagePreferences
+): TimelineItem[] {
+  const enabled = getEnabledCuts(cuts);
+  return buildTimeline(
+    enabled.map((cut) => cut.match),
+    preferences,
+    enabled.map((cut) => cut.overrides)
+  );
+}
@@ -0,0 +1,62 @@
+export const DEFAULT_FUZZY_THRESHOLD = 0.8;
+export const MIN_FUZZY_THRESHOLD = 0.5;
+
+export function clampFuzzyThreshold(value: number): number {
+  if (!Number.isFinite(value)) {
+    return DEFAULT_FUZZY_THRESHOLD;
+  }
+  return Math.min(1, Math.max(MIN_FUZZY_THRESHOLD, value));
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and
+ * swaps of neighbouring characters each cost one, which covers most typos.
+ * Returns `maxDistance + 1` as soon as the distance is known to exceed it.
+ */
+export function editDistance(a: string, b: string, maxDistance = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/** Similarity between 0 and 1, or null when it falls below `threshold`. */
+export function fuzzySimilarity(a: string, b: string, threshold: number): number | null {
+  const longest = Math.max(a.length, b.length);
+  if (!longest) {
+    return 1;
+  }
+
+  const maxDistance = Math.floor((1 - threshold) * longest);
+  const distance = editDistance(a, b, maxDistance);
+
+  return distance > maxDistance ? null : 1 - distance / longest;
+}
@@ -0,0 +1,89 @@
+export type TextDirection = "ltr" | "rtl";
+
+export interface WikiLanguage {
+  code: string;
+  name: string;
+  nativeName: string;
+  direction: TextDirection;
+}
+
+export const WIKIPEDIA_LANGUAGE_CODES: string[] = [
+  "en", "th", "de", "fr", "es", "ja", "ru", "it", "zh", "pt", "ar", "fa", "pl", "nl",
+  "uk", "he", "id", "tr", "cs", "sv", "ko", "vi", "fi", "hu", "ca", "no", "nn", "da",
+  "ro", "el", "bg", "sr", "hr", "sh", "sk", "sl", "lt", "lv", "et", "hi", "bn", "ur",
+  "ta", "te", "ml", "mr", "kn", "gu", "pa", "pnb", "ne", "si", "my", "km", "lo", "ms",
+  "tl", "ceb", "war", "jv", "su", "uz", "kk", "ky", "tg", "az", "azb", "hy", "ka",
+  "eu", "gl", "ast", "oc", "br", "cy", "ga", "gd", "is", "fo", "lb", "af", "sw", "zu",
+  "xh", "yo", "ig", "ha", "so", "am", "mk", "sq", "be", "be-tarask", "mn", "la", "eo",
+  "simple", "zh-yue", "zh-min-nan", "zh-classical", "arz", "ckb", "ps", "sd", "ug",
+  "yi", "dv", "ks", "mzn", "glk",
+];
+
+const RTL_LANGUAGES = new Set([
+  "ar", "arc", "arz", "ary", "azb", "ckb", "dv", "fa", "glk", "he", "ks", "lrc", "mzn",
+  "nqo", "pnb", "ps", "sd", "ug", "ur", "yi",
+]);
+
+const SPECIAL_LANGUAGE_NAMES: Record<string, string> = {
+  simple: "Simple English",
+  sh: "Serbo-Croatian",
+  "be-tarask": "Belarusian (Taraškievica)",
+  "zh-min-nan": "Min Nan",
+  "zh-classical": "Classical Chinese",
+};
+
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,10})*$/;
+
+export function normalizeLanguageCode(value: string): string | null {
+  const code = value.trim().toLowerCase();
+
+  if (code === "simple" || LANGUAGE_CODE_PATTERN.test(code)) {
+    return code;
+  }
+
+  return null;
+}
+
+export function isKnownWikipediaLanguage(code: string): boolean {
+  return WIKIPEDIA_LANGUAGE_CODES.includes(code);
+}
+
+export function getTextDirection(code: string): TextDirection {
+  const base = code.split("-")[0];
+  return RTL_LANGUAGES.has(code) || RTL_LANGUAGES.has(base) ? "rtl" : "ltr";
+}
+
+function displayName(code: string, locale: string): string | null {
+  if (SPECIAL_LANGUAGE_NAMES[code]) {
+    return SPECIAL_LANGUAGE_NAMES[code];
+  }
+
+  try {
+    const names = new Intl.DisplayNames([locale], { type: "language" });
+    const name = names.of(code);
+    return name && name !== code ? name : null;
+  } catch {
+    return null;
+  }
+}
+
+export function describeLanguage(code: string): WikiLanguage {
+  const name = displayName(code, "en") ?? code.toUpperCase();
+
+  return {
+    code,
+    name,
+    nativeName: displayName(code, code) ?? name,
+    direction: getTextDirection(code),
+  };
+}
+
+export function listWikipediaLanguages(): WikiLanguage[] {
+  return WIKIPEDIA_LANGUAGE_CODES.map(describeLanguage);
+}
+
+export function formatLanguageOption(language: WikiLanguage): string {
+  return language.nativeName === language.name
+    ? `${language.name} (${language.code})`
+    : `${language.name} — ${language.nativeName} (${language.code})`;
+}
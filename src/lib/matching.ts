@@ -0,0 +1,489 @@
+import { clampFuzzyThreshold, DEFAULT_FUZZY_THRESHOLD, fuzzySimilarity } from "./fuzzy";
+import { foldString, foldText, mapFoldedRange } from "./normalization";
+import { findWords, getWordBoundaries, needsWordSegmentation } from "./segmentation";
+import { getEnglishWordKey, supportsWordForms } from "./stemmer";
+
+export type KeywordMode = "text" | "regex" | "forms" | "fuzzy";
+
+export interface KeywordSpec {
+  /** Keyword exactly as typed, including modifiers. */
+  raw: string;
+  /** Name shown in the overlay and timeline. */
+  label: string;
+  mode: KeywordMode;
+  wholeWord: boolean;
+  caseSensitive: boolean;
+  /** Literal text (words to inflect or approximate), or the regex source. */
+  pattern: string;
+  /** Extra regular expression flags (regex mode only, without `g`). */
+  flags: string;
+}
+
+export interface KeywordParseError {
+  raw: string;
+  message: string;
+}
+
+export interface ParsedKeywords {
+  specs: KeywordSpec[];
+  errors: KeywordParseError[];
+}
+
+export interface MatchRange {
+  start: number;
+  end: number;
+  /** Similarity to the keyword for fuzzy matches; exact matches omit it. */
+  score?: number;
+}
+
+export interface MatchOptions {
+  /** Ignore accents, compatibility/width forms and Thai tone marks. */
+  foldCharacters?: boolean;
+  /** Minimum similarity (0–1) a fuzzy keyword needs to count as a match. */
+  fuzzyThreshold?: number;
+}
+
+export interface KeywordMatcher {
+  spec: KeywordSpec;
+  find(text: string): MatchRange[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  isMatch: boolean;
+}
+
+const WHOLE_WORD_MODIFIER = "=";
+const CASE_SENSITIVE_MODIFIER = "^";
+const WORD_FORMS_MODIFIER = "~";
+const FUZZY_MODIFIER = "?";
+const MODIFIER_PREFIX = /^[\s=^~?]*/;
+const SEPARATOR_PATTERN = /[,;\n]/;
+const ALLOWED_REGEX_FLAGS = /^[imsu]*$/;
+const WORD_CHAR = "[\\p{L}\\p{M}\\p{N}_]";
+
+export const KEYWORD_SYNTAX_HINT =
+  'Separate with commas or line breaks. Prefix "=" for whole words, "^" to match case, "~" for word forms (run, ran, running), "?" to allow typos, or use /regex/i.';
+
+interface KeywordEntry {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Finds each entry in the keywords box with its offsets. Separators inside a
+// `/regex/` literal are kept, so patterns such as `/a{1,3}/` survive; a slash
+// that is never closed is plain text, so `/usr, cat` still splits in two.
+const scanKeywords = (input: string): KeywordEntry[] => {
+  const entries: KeywordEntry[] = [];
+  let entryStart = 0;
+  let index = 0;
+
+  const pushEntry = (end: number) => {
+    const raw = input.slice(entryStart, end);
+    const text = raw.trim();
+    if (text) {
+      const start = entryStart + raw.indexOf(text);
+      entries.push({ text, start, end: start + text.length });
+    }
+  };
+
+  while (index < input.length) {
+    const char = input[index];
+    const atPatternStart =
+      char === "/" && !input.slice(entryStart, index).replace(MODIFIER_PREFIX, "");
+
+    if (atPatternStart) {
+      let inClass = false;
+      let closed = false;
+      let cursor = index + 1;
+
+      while (cursor < input.length && !closed) {
+        const next = input[cursor];
+        cursor += 1;
+
+        if (next === "\\") {
+          cursor += 1;
+        } else if (next === "[") {
+          inClass = true;
+        } else if (next === "]") {
+          inClass = false;
+        } else if (next === "/" && !inClass) {
+          closed = true;
+        }
+      }
+
+      if (closed) {
+        index = cursor;
+        continue;
+      }
+    }
+
+    if (SEPARATOR_PATTERN.test(char)) {
+      pushEntry(index);
+      entryStart = index + 1;
+    }
+    index += 1;
+  }
+
+  pushEntry(input.length);
+  return entries;
+};
+
+export function splitKeywords(input: string): string[] {
+  return scanKeywords(input).map((entry) => entry.text);
+}
+
+function escapeRegex(pattern: string): string {
+  return pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function parseKeyword(raw: string): KeywordSpec {
+  let body = raw.trim();
+  let wholeWord = false;
+  let caseSensitive = false;
+  let wordForms = false;
+  let fuzzy = false;
+
+  while (body.length > 1) {
+    if (body[0] === WHOLE_WORD_MODIFIER) {
+      wholeWord = true;
+    } else if (body[0] === CASE_SENSITIVE_MODIFIER) {
+      caseSensitive = true;
+    } else if (body[0] === WORD_FORMS_MODIFIER) {
+      wordForms = true;
+    } else if (body[0] === FUZZY_MODIFIER) {
+      fuzzy = true;
+    } else {
+      break;
+    }
+    body = body.slice(1).trimStart();
+  }
+
+  const literal = /^\/([\s\S]+)\/([a-z]*)$/.exec(body);
+
+  if (literal) {
+    const flags = literal[2];
+    return {
+      raw,
+      label: body,
+      mode: "regex",
+      wholeWord,
+      caseSensitive: !flags.includes("i"),
+      pattern: literal[1],
+      flags: flags.replace(/[gi]/g, ""),
+    };
+  }
+
+  return {
+    raw,
+    label: body,
+    mode: fuzzy ? "fuzzy" : wordForms ? "forms" : "text",
+    wholeWord: wholeWord || wordForms || fuzzy,
+    caseSensitive,
+    pattern: body,
+    flags: "",
+  };
+}
+
+/**
+ * Builds the global regular expression used to find a keyword. Both the
+ * match collector and the article preview go through this so they agree.
+ */
+export function compileKeyword(spec: KeywordSpec): RegExp {
+  const source = spec.mode === "regex" ? spec.pattern : escapeRegex(spec.pattern);
+  const flags = `g${spec.caseSensitive ? "" : "i"}${spec.flags}`;
+
+  if (!spec.wholeWord) {
+    return new RegExp(source, spec.mode === "regex" ? flags : `${flags}u`);
+  }
+
+  const bounded = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`;
+  const unicodeFlags = flags.includes("u") ? flags : `${flags}u`;
+
+  try {
+    return new RegExp(bounded, unicodeFlags);
+  } catch {
+    // Some patterns are only valid without the `u` flag; fall back to ASCII boundaries.
+    return new RegExp(`(?<![\\w])(?:${source})(?![\\w])`, flags);
+  }
+}
+
+export function parseKeywords(input: string): ParsedKeywords {
+  const specs: KeywordSpec[] = [];
+  const errors: KeywordParseError[] = [];
+
+  splitKeywords(input).forEach((raw) => {
+    const spec = parseKeyword(raw);
+
+    if (spec.mode === "regex" && !ALLOWED_REGEX_FLAGS.test(spec.flags)) {
+      errors.push({ raw, message: `Unsupported regex flag in ${raw} (use i, m, s or u).` });
+      return;
+    }
+
+    try {
+      compileKeyword(spec);
+      specs.push(spec);
+    } catch (error) {
+      errors.push({
+        raw,
+        message: `Invalid pattern ${raw}: ${
+          error instanceof Error ? error.message : "could not compile"
+        }`,
+      });
+    }
+  });
+
+  return { specs, errors };
+}
+
+/** Plain keywords double as article search terms; patterns cannot. */
+export function listSearchableKeywords(input: string): string[] {
+  return parseKeywords(input)
+    .specs.filter((spec) => spec.mode !== "regex")
+    .map((spec) => spec.pattern);
+}
+
+const MODE_MODIFIERS: Partial<Record<KeywordMode, string>> = {
+  forms: WORD_FORMS_MODIFIER,
+  fuzzy: FUZZY_MODIFIER,
+};
+
+/**
+ * Switches one entry of the keywords box between exact, word-forms and fuzzy
+ * matching, leaving the other entries and their separators untouched.
+ */
+export function setKeywordMode(
+  input: string,
+  raw: string,
+  mode: "text" | "forms" | "fuzzy"
+): string {
+  const entry = scanKeywords(input).find((candidate) => candidate.text === raw);
+  if (!entry) {
+    return input;
+  }
+
+  const modifiers = MODIFIER_PREFIX.exec(entry.text)?.[0] ?? "";
+  const nextModifiers =
+    (MODE_MODIFIERS[mode] ?? "") + modifiers.replace(/[~?]/g, "");
+  const nextText = nextModifiers + entry.text.slice(modifiers.length);
+
+  return input.slice(0, entry.start) + nextText + input.slice(entry.end);
+}
+
+export function findKeywordRanges(text: string, pattern: RegExp): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  pattern.lastIndex = 0;
+
+  let match = pattern.exec(text);
+  while (match) {
+    if (match[0].length === 0) {
+      pattern.lastIndex += 1;
+    } else {
+      ranges.push({ start: match.index, end: match.index + match[0].length });
+    }
+    match = pattern.exec(text);
+  }
+
+  return ranges;
+}
+
+type RangeFinder = (text: string) => MatchRange[];
+
+// Compares words by their inflection key, so "~run" finds "runs" and "ran".
+// Phrases match when every word lines up in sequence.
+const createWordFormsFinder = (spec: KeywordSpec, language: string): RangeFinder => {
+  const toKey = supportsWordForms(language)
+    ? getEnglishWordKey
+    : (word: string) => word.toLocaleLowerCase();
+  const target = findWords(spec.pattern, language).map((word) => toKey(word.text));
+
+  if (!target.length) {
+    return () => [];
+  }
+
+  return (text) => {
+    const words = findWords(text, language);
+    const keys = words.map((word) => toKey(word.text));
+    const ranges: MatchRange[] = [];
+
+    for (let index = 0; index + target.length <= words.length; index += 1) {
+      if (target.every((key, offset) => keys[index + offset] === key)) {
+        const last = words[index + target.length - 1];
+        ranges.push({ start: words[index].index, end: last.index + last.text.length });
+      }
+    }
+
+    return ranges;
+  };
+};
+
+// Slides a window of words over the text and keeps the closest spelling at
+// each position. Windows one word shorter or longer catch split or merged
+// names ("Mao Zedong" and "Maozedong").
+const createFuzzyFinder = (
+  spec: KeywordSpec,
+  language: string,
+  threshold: number
+): RangeFinder => {
+  const targetWords = findWords(spec.pattern, language).map((word) =>
+    word.text.toLocaleLowerCase()
+  );
+  const target = targetWords.join(" ");
+  const wordCount = targetWords.length;
+
+  if (!wordCount) {
+    return () => [];
+  }
+
+  return (text) => {
+    const words = findWords(text, language);
+    const ranges: MatchRange[] = [];
+    let index = 0;
+
+    while (index < words.length) {
+      let best: { size: number; score: number } | null = null;
+
+      for (let size = Math.max(1, wordCount - 1); size <= wordCount + 1; size += 1) {
+        if (index + size > words.length) {
+          break;
+        }
+
+        const candidate = words
+          .slice(index, index + size)
+          .map((word) => word.text.toLocaleLowerCase())
+          .join(" ");
+        const score = fuzzySimilarity(candidate, target, threshold);
+
+        if (score !== null && (!best || score > best.score)) {
+          best = { size, score };
+        }
+      }
+
+      if (!best) {
+        index += 1;
+        continue;
+      }
+
+      const last = words[index + best.size - 1];
+      ranges.push({
+        start: words[index].index,
+        end: last.index + last.text.length,
+        score: best.score,
+      });
+      index += best.size;
+    }
+
+    return ranges;
+  };
+};
+
+// In languages written without spaces a regex word boundary never fires inside
+// a run of Thai or Chinese, so whole-word keywords match anywhere and are then
+// kept only when both ends land on a segmenter word boundary.
+const createRangeFinder = (
+  spec: KeywordSpec,
+  language: string,
+  options: MatchOptions
+): RangeFinder => {
+  if (spec.mode === "forms") {
+    return createWordFormsFinder(spec, language);
+  }
+
+  if (spec.mode === "fuzzy") {
+    return createFuzzyFinder(
+      spec,
+      language,
+      clampFuzzyThreshold(options.fuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD)
+    );
+  }
+
+  if (!spec.wholeWord || !needsWordSegmentation(language)) {
+    const pattern = compileKeyword(spec);
+    return (text) => findKeywordRanges(text, pattern);
+  }
+
+  const pattern = compileKeyword({ ...spec, wholeWord: false });
+
+  return (text) => {
+    const ranges = findKeywordRanges(text, pattern);
+    if (!ranges.length) {
+      return ranges;
+    }
+
+    const boundaries = getWordBoundaries(text, language);
+    return ranges.filter(({ start, end }) => boundaries.has(start) && boundaries.has(end));
+  };
+};
+
+/**
+ * Pairs a keyword with the function that finds it. With `foldCharacters` both
+ * the keyword and the text are folded first and the ranges are mapped back to
+ * offsets in the original text, so highlights land on the real characters.
+ */
+export function createKeywordMatcher(
+  spec: KeywordSpec,
+  language: string,
+  options: MatchOptions = {}
+): KeywordMatcher {
+  if (!options.foldCharacters) {
+    return { spec, find: createRangeFinder(spec, language, options) };
+  }
+
+  const findFolded = createRangeFinder(
+    { ...spec, pattern: foldString(spec.pattern) },
+    language,
+    options
+  );
+
+  return {
+    spec,
+    find(text) {
+      const folded = foldText(text);
+      return findFolded(folded.text).map(({ start, end, score }) => ({
+        ...mapFoldedRange(folded, start, end),
+        score,
+      }));
+    },
+  };
+}
+
+export function createKeywordMatchers(
+  input: string,
+  language: string,
+  options: MatchOptions = {}
+): KeywordMatcher[] {
+  return parseKeywords(input).specs.map((spec) => createKeywordMatcher(spec, language, options));
+}
+
+/** Splits text into plain and highlighted runs, merging overlapping matches. */
+export function buildHighlightSegments(
+  text: string,
+  matchers: KeywordMatcher[]
+): HighlightSegment[] {
+  const ranges = matchers
+    .flatMap((matcher) => matcher.find(text))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+
+  ranges.forEach(({ start, end }) => {
+    if (end <= cursor) {
+      return;
+    }
+
+    const from = Math.max(start, cursor);
+    if (from > cursor) {
+      segments.push({ text: text.slice(cursor, from), isMatch: false });
+    }
+    segments.push({ text: text.slice(from, end), isMatch: true });
+    cursor = end;
+  });
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), isMatch: false });
+  }
+
+  return segments;
+}
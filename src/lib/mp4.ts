@@ -0,0 +1,429 @@
+import type { EncodedSample } from "./offlineRender";
+
+// Backed by a plain ArrayBuffer, as Blob parts must be.
+type Bytes = Uint8Array<ArrayBuffer>;
+
+export interface Mp4VideoTrack {
+  /** WebCodecs codec string: "avc1.*", "av01.*" or "vp09.*". */
+  codec: string;
+  width: number;
+  height: number;
+  /** avcC / av1C payload from the encoder; AV1 and VP9 fall back to the codec string. */
+  description?: Bytes | null;
+  samples: EncodedSample[];
+}
+
+export interface Mp4AudioTrack {
+  /** "mp4a.40.2" (AAC-LC) or "opus". */
+  codec: string;
+  sampleRate: number;
+  channels: number;
+  /** AudioSpecificConfig for AAC; built from the fields above when missing. */
+  description?: Bytes | null;
+  samples: EncodedSample[];
+}
+
+export interface Mp4File {
+  durationMs: number;
+  video: Mp4VideoTrack;
+  audio?: Mp4AudioTrack | null;
+}
+
+// A box is its size, its type and its body; bodies stay as separate parts so
+// large frames are never copied into one big buffer before the Blob.
+interface Box {
+  size: number;
+  parts: Bytes[];
+}
+
+const MOVIE_TIMESCALE = 1000;
+const VIDEO_TIMESCALE = 90000;
+const OPUS_PRE_SKIP = 312;
+const AAC_SAMPLE_RATES = [
+  96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350,
+];
+// Identity transform, shared by the movie and every track header.
+const MATRIX = [0x10000, 0, 0, 0, 0x10000, 0, 0, 0, 0x40000000];
+
+/** Big-endian writer for the fixed-layout parts of boxes. */
+const bytes = (fields: Array<[bits: 8 | 16 | 32 | 64, value: number]>): Bytes => {
+  const length = fields.reduce((total, [bits]) => total + bits / 8, 0);
+  const out = new Uint8Array(length);
+  const view = new DataView(out.buffer);
+  let offset = 0;
+  fields.forEach(([bits, value]) => {
+    if (bits === 8) {
+      view.setUint8(offset, value);
+    } else if (bits === 16) {
+      view.setUint16(offset, value);
+    } else if (bits === 32) {
+      view.setUint32(offset, value >>> 0);
+    } else {
+      view.setUint32(offset, Math.floor(value / 2 ** 32));
+      view.setUint32(offset + 4, value >>> 0);
+    }
+    offset += bits / 8;
+  });
+  return out;
+};
+
+const ascii = (text: string): Bytes => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+const box = (type: string, body: Array<Bytes | Box>): Box => {
+  const parts: Bytes[] = [];
+  let size = 8;
+  body.forEach((child) => {
+    if (child instanceof Uint8Array) {
+      parts.push(child);
+      size += child.byteLength;
+    } else {
+      // A loop rather than a spread: mdat can hold a very long part list.
+      child.parts.forEach((part) => parts.push(part));
+      size += child.size;
+    }
+  });
+  return { size, parts: [bytes([[32, size]]), ascii(type)].concat(parts) };
+};
+
+const fullBox = (type: string, version: number, flags: number, body: Array<Bytes | Box>) =>
+  box(type, [bytes([[8, version], [8, flags >> 16], [16, flags & 0xffff]]), ...body]);
+
+const matrix = () => bytes(MATRIX.map((value): [32, number] => [32, value]));
+
+const toTimescale = (microseconds: number, timescale: number) =>
+  Math.round((microseconds * timescale) / 1_000_000);
+
+// The MP4 sample entry and its decoder configuration box for a video codec.
+const videoSampleEntry = (track: Mp4VideoTrack): Box => {
+  const visual = [
+    new Uint8Array(6),
+    bytes([[16, 1]]),
+    new Uint8Array(16),
+    bytes([
+      [16, track.width],
+      [16, track.height],
+      [32, 0x480000],
+      [32, 0x480000],
+      [32, 0],
+      [16, 1],
+    ]),
+    new Uint8Array(32),
+    bytes([
+      [16, 0x18],
+      [16, 0xffff],
+    ]),
+  ];
+
+  if (track.codec.startsWith("avc1")) {
+    return box("avc1", [...visual, box("avcC", [track.description ?? new Uint8Array(0)])]);
+  }
+
+  if (track.codec.startsWith("av01")) {
+    // av01.P.LLT.DD: profile, level, tier, bit depth.
+    const [, profile = "0", levelTier = "08M", depth = "08"] = track.codec.split(".");
+    const level = Number.parseInt(levelTier, 10) || 0;
+    const tier = levelTier.endsWith("H") ? 1 : 0;
+    const highBitDepth = Number(depth) > 8 ? 1 : 0;
+    const config =
+      track.description ??
+      bytes([
+        [8, 0x81],
+        [8, (Number(profile) << 5) | level],
+        [8, (tier << 7) | (highBitDepth << 6) | 0x0c],
+        [8, 0],
+      ]);
+    return box("av01", [...visual, box("av1C", [config])]);
+  }
+
+  // vp09.PP.LL.DD: profile, level, bit depth; 4:2:0 with BT.709 colour.
+  const [, profile = "00", level = "10", depth = "08"] = track.codec.split(".");
+  return box("vp09", [
+    ...visual,
+    fullBox("vpcC", 1, 0, [
+      bytes([
+        [8, Number(profile)],
+        [8, Number(level)],
+        [8, (Number(depth) << 4) | (1 << 1)],
+        [8, 1],
+        [8, 1],
+        [8, 1],
+        [16, 0],
+      ]),
+    ]),
+  ]);
+};
+
+const createAudioSpecificConfig = (sampleRate: number, channels: number): Bytes => {
+  const index = Math.max(0, AAC_SAMPLE_RATES.indexOf(sampleRate));
+  // 5 bits object type (2 = AAC-LC), 4 bits rate index, 4 bits channels.
+  return bytes([[16, (2 << 11) | (index << 7) | (channels << 3)]]);
+};
+
+// MPEG-4 descriptors; everything written here fits the one-byte length form.
+const descriptor = (tag: number, body: Bytes[]): Bytes => {
+  const length = body.reduce((total, part) => total + part.byteLength, 0);
+  const out = new Uint8Array(2 + length);
+  out[0] = tag;
+  out[1] = length;
+  let offset = 2;
+  body.forEach((part) => {
+    out.set(part, offset);
+    offset += part.byteLength;
+  });
+  return out;
+};
+
+const audioSampleEntry = (track: Mp4AudioTrack): Box => {
+  const audio = [
+    new Uint8Array(6),
+    bytes([
+      [16, 1],
+      [32, 0],
+      [32, 0],
+      [16, track.channels],
+      [16, 16],
+      [16, 0],
+      [16, 0],
+      [32, Math.min(track.sampleRate, 0xffff) * 0x10000],
+    ]),
+  ];
+
+  if (track.codec === "opus") {
+    return box("Opus", [
+      ...audio,
+      box("dOps", [
+        bytes([
+          [8, 0],
+          [8, track.channels],
+          [16, OPUS_PRE_SKIP],
+          [32, track.sampleRate],
+          [16, 0],
+          [8, 0],
+        ]),
+      ]),
+    ]);
+  }
+
+  const specificConfig =
+    track.description ?? createAudioSpecificConfig(track.sampleRate, track.channels);
+  const decoderConfig = descriptor(0x04, [
+    bytes([
+      [8, 0x40],
+      [8, 0x15],
+      [8, 0],
+      [16, 0],
+      [32, 0],
+      [32, 0],
+    ]),
+    descriptor(0x05, [specificConfig]),
+  ]);
+  const esDescriptor = descriptor(0x03, [
+    bytes([
+      [16, 2],
+      [8, 0],
+    ]),
+    decoderConfig,
+    descriptor(0x06, [bytes([[8, 0x02]])]),
+  ]);
+  return box("mp4a", [...audio, fullBox("esds", 0, 0, [esDescriptor])]);
+};
+
+interface TrackLayout {
+  id: number;
+  kind: "video" | "audio";
+  timescale: number;
+  durationMs: number;
+  samples: EncodedSample[];
+  sampleEntry: Box;
+  width: number;
+  height: number;
+}
+
+// Run-length encoded sample durations, from the gaps between timestamps.
+const timeToSample = (samples: EncodedSample[], timescale: number) => {
+  const entries: Array<[count: number, delta: number]> = [];
+  samples.forEach((sample, index) => {
+    const next = samples[index + 1];
+    const delta = next
+      ? toTimescale(next.timestampUs, timescale) - toTimescale(sample.timestampUs, timescale)
+      : toTimescale(sample.durationUs, timescale);
+    const last = entries[entries.length - 1];
+    if (last && last[1] === delta) {
+      last[0] += 1;
+    } else {
+      entries.push([1, Math.max(0, delta)]);
+    }
+  });
+  return entries;
+};
+
+const trackBox = (track: TrackLayout, chunkOffsets: number[]): Box => {
+  const { samples, timescale } = track;
+  const mediaDuration = toTimescale(track.durationMs * 1000, timescale);
+  const movieDuration = Math.round(track.durationMs);
+  const isVideo = track.kind === "video";
+  const stts = timeToSample(samples, timescale);
+  const keyframes = samples.flatMap((sample, index) => (sample.isKey ? [index + 1] : []));
+
+  const sampleTable = box("stbl", [
+    fullBox("stsd", 0, 0, [bytes([[32, 1]]), track.sampleEntry]),
+    fullBox("stts", 0, 0, [
+      bytes([
+        [32, stts.length],
+        ...stts.flatMap(([count, delta]): Array<[32, number]> => [
+          [32, count],
+          [32, delta],
+        ]),
+      ]),
+    ]),
+    ...(isVideo && keyframes.length < samples.length
+      ? [
+          fullBox("stss", 0, 0, [
+            bytes([
+              [32, keyframes.length],
+              ...keyframes.map((index): [32, number] => [32, index]),
+            ]),
+          ]),
+        ]
+      : []),
+    // One sample per chunk keeps the tables simple; co64 allows files over 4 GB.
+    fullBox("stsc", 0, 0, [bytes([[32, 1], [32, 1], [32, 1], [32, 1]])]),
+    fullBox("stsz", 0, 0, [
+      bytes([
+        [32, 0],
+        [32, samples.length],
+        ...samples.map((sample): [32, number] => [32, sample.data.byteLength]),
+      ]),
+    ]),
+    fullBox("co64", 0, 0, [
+      bytes([
+        [32, chunkOffsets.length],
+        ...chunkOffsets.map((offset): [64, number] => [64, offset]),
+      ]),
+    ]),
+  ]);
+
+  return box("trak", [
+    fullBox("tkhd", 0, 3, [
+      bytes([
+        [32, 0],
+        [32, 0],
+        [32, track.id],
+        [32, 0],
+        [32, movieDuration],
+        [32, 0],
+        [32, 0],
+        [16, 0],
+        [16, 0],
+        [16, isVideo ? 0 : 0x0100],
+        [16, 0],
+      ]),
+      matrix(),
+      bytes([
+        [32, track.width * 0x10000],
+        [32, track.height * 0x10000],
+      ]),
+    ]),
+    box("mdia", [
+      fullBox("mdhd", 0, 0, [
+        bytes([
+          [32, 0],
+          [32, 0],
+          [32, timescale],
+          [32, mediaDuration],
+          // "und" packed as three 5-bit letters.
+          [16, 0x55c4],
+          [16, 0],
+        ]),
+      ]),
+      fullBox("hdlr", 0, 0, [
+        bytes([[32, 0]]),
+        ascii(isVideo ? "vide" : "soun"),
+        new Uint8Array(12),
+        ascii(isVideo ? "VideoHandler\0" : "SoundHandler\0"),
+      ]),
+      box("minf", [
+        isVideo
+          ? fullBox("vmhd", 0, 1, [new Uint8Array(8)])
+          : fullBox("smhd", 0, 0, [new Uint8Array(4)]),
+        box("dinf", [fullBox("dref", 0, 0, [bytes([[32, 1]]), fullBox("url ", 0, 1, [])])]),
+        sampleTable,
+      ]),
+    ]),
+  ]);
+};
+
+/**
+ * Writes a complete, progressive MP4 (moov before mdat) from already encoded
+ * frames, so the file plays and seeks in any player straight away.
+ */
+export function createMp4({ durationMs, video, audio = null }: Mp4File): Blob {
+  const tracks: TrackLayout[] = [
+    {
+      id: 1,
+      kind: "video",
+      timescale: VIDEO_TIMESCALE,
+      durationMs,
+      samples: video.samples,
+      sampleEntry: videoSampleEntry(video),
+      width: video.width,
+      height: video.height,
+    },
+  ];
+  if (audio) {
+    tracks.push({
+      id: 2,
+      kind: "audio",
+      timescale: audio.sampleRate,
+      durationMs,
+      samples: audio.samples,
+      sampleEntry: audioSampleEntry(audio),
+      width: 0,
+      height: 0,
+    });
+  }
+
+  const ftyp = box("ftyp", [ascii("isom"), bytes([[32, 0x200]]), ascii("isomiso2avc1mp41")]);
+
+  const buildMoov = (offsets: number[][]) =>
+    box("moov", [
+      fullBox("mvhd", 0, 0, [
+        bytes([
+          [32, 0],
+          [32, 0],
+          [32, MOVIE_TIMESCALE],
+          [32, Math.round(durationMs)],
+          [32, 0x10000],
+          [16, 0x0100],
+          [16, 0],
+          [32, 0],
+          [32, 0],
+        ]),
+        matrix(),
+        new Uint8Array(24),
+        bytes([[32, tracks.length + 1]]),
+      ]),
+      ...tracks.map((track, index) => trackBox(track, offsets[index])),
+    ]);
+
+  // The moov size does not depend on the offset values, so measure it with
+  // zeros first, then lay samples out after it: all video, then all audio.
+  const placeholder = buildMoov(tracks.map((track) => track.samples.map(() => 0)));
+  let offset = ftyp.size + placeholder.size + 16;
+  const offsets = tracks.map((track) =>
+    track.samples.map((sample) => {
+      const start = offset;
+      offset += sample.data.byteLength;
+      return start;
+    })
+  );
+  const moov = buildMoov(offsets);
+
+  // A 64-bit mdat header, so large 4K exports never overflow the size field.
+  const mdatSize = offset - ftyp.size - moov.size;
+  const mdatHeader = [bytes([[32, 1]]), ascii("mdat"), bytes([[64, mdatSize]])];
+
+  const parts: BlobPart[] = [...ftyp.parts, ...moov.parts, ...mdatHeader];
+  tracks.forEach((track) => track.samples.forEach((sample) => parts.push(sample.data)));
+  return new Blob(parts, { type: "video/mp4" });
+}
@@ -0,0 +1,161 @@
+import { collectMatches, type KeywordMatch } from "./text";
+import type { MatchOptions } from "./matching";
+import { applySectionFilter, type SectionFilter } from "./sections";
+import {
+  fetchArticleByTitle,
+  fetchArticleByTopic,
+  searchArticleCandidates,
+  type SupportedLanguage,
+  type WikiArticle,
+} from "./wiki";
+
+/** Where the articles of a timeline come from. */
+export type ArticleMode = "single" | "topics" | "keyword-search" | "discover";
+
+export const ARTICLE_MODE_OPTIONS: Array<{ value: ArticleMode; label: string }> = [
+  { value: "single", label: "One article" },
+  { value: "topics", label: "A list of topics" },
+  { value: "keyword-search", label: "Top search results for the keywords" },
+  { value: "discover", label: "Pick from articles containing a keyword" },
+];
+
+export const DEFAULT_ARTICLE_LIMIT = 5;
+export const MAX_ARTICLE_LIMIT = 20;
+
+export function clampArticleLimit(value: number): number {
+  if (!Number.isFinite(value)) {
+    return DEFAULT_ARTICLE_LIMIT;
+  }
+  return Math.min(MAX_ARTICLE_LIMIT, Math.max(1, Math.round(value)));
+}
+
+/** Splits one topic per line (or "|"), dropping blanks and repeats. */
+export function splitTopicList(input: string): string[] {
+  const seen = new Set<string>();
+  return input
+    .split(/[\n|]/)
+    .map((topic) => topic.trim())
+    .filter((topic) => {
+      const key = topic.toLocaleLowerCase();
+      if (!topic || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+}
+
+export interface LoadedArticles {
+  articles: WikiArticle[];
+  /** Topics, titles or keywords that found no article or failed to load. */
+  missing: string[];
+}
+
+/**
+ * Loads one article per topic, one at a time to stay polite to the API.
+ * A topic that fails is reported in `missing` instead of failing the batch.
+ */
+export async function loadArticlesByTopics(
+  topics: string[],
+  language: SupportedLanguage,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<LoadedArticles> {
+  const articles: WikiArticle[] = [];
+  const missing: string[] = [];
+  const titles = new Set<string>();
+
+  for (const [index, topic] of topics.entries()) {
+    onProgress?.(index, topics.length);
+    try {
+      const article = await fetchArticleByTopic(topic, language);
+      if (article && !titles.has(article.title)) {
+        titles.add(article.title);
+        articles.push(article);
+      } else if (!article) {
+        missing.push(topic);
+      }
+    } catch {
+      missing.push(topic);
+    }
+  }
+
+  return { articles, missing };
+}
+
+/**
+ * Loads the top `limit` search results across the keywords, in turn. A
+ * keyword whose search fails is reported in `missing`; the rest still load.
+ */
+export async function loadArticlesForKeywords(
+  keywords: string[],
+  language: SupportedLanguage,
+  limit: number,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<LoadedArticles> {
+  const searches = await Promise.allSettled(
+    keywords.map((keyword) => searchArticleCandidates(keyword, language, limit))
+  );
+  const failedKeywords = keywords.filter((_, index) => searches[index].status === "rejected");
+  const perKeyword = searches.map((search) =>
+    search.status === "fulfilled" ? search.value : []
+  );
+
+  const titles: string[] = [];
+  for (let round = 0; titles.length < limit; round += 1) {
+    const turn = perKeyword
+      .map((candidates) => candidates.filter((candidate) => !candidate.isDisambiguation)[round])
+      .filter(Boolean);
+    if (!turn.length) {
+      break;
+    }
+    turn.forEach((candidate) => {
+      if (titles.length < limit && !titles.includes(candidate.title)) {
+        titles.push(candidate.title);
+      }
+    });
+  }
+
+  const loaded = await loadArticlesByTitles(titles, language, onProgress);
+  return { ...loaded, missing: [...failedKeywords, ...loaded.missing] };
+}
+
+/** Loads exact titles in order, one at a time; failures go to `missing`. */
+export async function loadArticlesByTitles(
+  titles: string[],
+  language: SupportedLanguage,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<LoadedArticles> {
+  const articles: WikiArticle[] = [];
+  const missing: string[] = [];
+  for (const [index, title] of titles.entries()) {
+    onProgress?.(index, titles.length);
+    try {
+      articles.push(await fetchArticleByTitle(title, language));
+    } catch {
+      missing.push(title);
+    }
+  }
+
+  return { articles, missing };
+}
+
+/** Matches from every article, each tagged with the article it came from. */
+export function collectArticleMatches(
+  articles: WikiArticle[],
+  rawKeywords: string,
+  options: MatchOptions = {}
+): KeywordMatch[] {
+  return articles.flatMap((article, index) =>
+    collectMatches(article, rawKeywords, options, index)
+  );
+}
+
+/** How many matches an article would contribute, after the section filter. */
+export function countArticleMatches(
+  article: WikiArticle,
+  rawKeywords: string,
+  options: MatchOptions = {},
+  filter?: SectionFilter
+): number {
+  return collectMatches(applySectionFilter(article, filter), rawKeywords, options).length;
+}
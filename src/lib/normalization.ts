@@ -0,0 +1,63 @@
+export interface FoldedText {
+  text: string;
+  /** Original offset where each folded UTF-16 unit's source cluster starts. */
+  starts: number[];
+  /** Original offset where each folded UTF-16 unit's source cluster ends. */
+  ends: number[];
+}
+
+// A base character with its combining marks, or stray marks at the start.
+const CLUSTER_PATTERN = /\P{M}\p{M}*|\p{M}+/gu;
+const COMBINING_MARK = /\p{M}/gu;
+
+// Marks that change the letter rather than decorate it survive folding: Thai
+// vowel signs and nikhahit (part of SARA AM), and the kana voicing marks.
+const KEPT_MARKS = /[\u0E31\u0E34-\u0E3A\u0E4D\u3099\u309A]/u;
+
+const stripMarks = (value: string) =>
+  value.replace(COMBINING_MARK, (mark) => (KEPT_MARKS.test(mark) ? mark : ""));
+
+/**
+ * NFKD-folds a string for loose matching: compatibility forms collapse
+ * (full-width "ＡＢＣ" becomes "ABC", "ﬁ" becomes "fi"), accents are dropped
+ * ("café" becomes "cafe") and Thai tone marks are ignored.
+ */
+export function foldString(value: string): string {
+  return stripMarks(value.normalize("NFKD"));
+}
+
+/**
+ * Folds text like `foldString` while remembering where every folded unit came
+ * from, so ranges found in the folded text can be mapped back onto the
+ * original paragraph.
+ */
+export function foldText(value: string): FoldedText {
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let text = "";
+
+  for (const match of value.matchAll(CLUSTER_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const folded = foldString(match[0]);
+
+    text += folded;
+    for (let index = 0; index < folded.length; index += 1) {
+      starts.push(start);
+      ends.push(end);
+    }
+  }
+
+  return { text, starts, ends };
+}
+
+export function mapFoldedRange(
+  folded: FoldedText,
+  start: number,
+  end: number
+): { start: number; end: number } {
+  return {
+    start: folded.starts[start] ?? 0,
+    end: folded.ends[end - 1] ?? folded.starts[start] ?? 0,
+  };
+}
@@ -0,0 +1,372 @@
+import { createMp4 } from "./mp4";
+import { getFrameCount, getFrameTimestamp } from "./stageFrames";
+import { createWebm } from "./webm";
+
+/** One encoded frame or audio packet, ready for a muxer. */
+export interface EncodedSample {
+  data: Uint8Array<ArrayBuffer>;
+  timestampUs: number;
+  durationUs: number;
+  isKey: boolean;
+}
+
+export type OfflineContainer = "mp4" | "webm";
+
+export interface OfflineRenderOptions {
+  /** Canvas `drawFrame` paints on at the output size; each frame is captured from it. */
+  canvas: HTMLCanvasElement;
+  container: OfflineContainer;
+  frameRate: number;
+  durationMs: number;
+  drawFrame(timeMs: number): void;
+  /** Finished mixdown to encode alongside the video, if any. */
+  audio: AudioBuffer | null;
+  /** Bits per second; 0 leaves it to the encoder. */
+  videoBitrate: number;
+  audioBitrate: number;
+  onProgress?(frame: number, totalFrames: number): void;
+  isCancelled?(): boolean;
+}
+
+export interface OfflineRenderResult {
+  blob: Blob;
+  container: OfflineContainer;
+  /** Codec string the video was encoded with, e.g. "avc1.640034". */
+  codec: string;
+  /** Human-readable codec name, e.g. "H.264". */
+  codecName: string;
+  width: number;
+  height: number;
+  hasAudio: boolean;
+}
+
+interface CodecChoice {
+  codec: string;
+  name: string;
+}
+
+// Most compatible first. H.264 high profile level 5.2 and the AV1/VP9 level
+// 5.0 strings cover everything up to 4K at 60 fps.
+const VIDEO_CODECS: Record<OfflineContainer, CodecChoice[]> = {
+  mp4: [
+    { codec: "avc1.640034", name: "H.264" },
+    { codec: "av01.0.12M.08", name: "AV1" },
+    { codec: "vp09.00.50.08", name: "VP9" },
+  ],
+  webm: [
+    { codec: "vp09.00.50.08", name: "VP9" },
+    { codec: "vp8", name: "VP8" },
+  ],
+};
+const AUDIO_CODECS: Record<OfflineContainer, CodecChoice[]> = {
+  mp4: [
+    { codec: "mp4a.40.2", name: "AAC" },
+    { codec: "opus", name: "Opus" },
+  ],
+  webm: [{ codec: "opus", name: "Opus" }],
+};
+const OPUS_SAMPLE_RATE = 48000;
+const KEYFRAME_INTERVAL_S = 2;
+const MAX_ENCODE_QUEUE = 6;
+const AUDIO_CHUNK_FRAMES = OPUS_SAMPLE_RATE;
+
+/** Sample rate offline mixdowns should use so Opus needs no resampling. */
+export const OFFLINE_AUDIO_SAMPLE_RATE = OPUS_SAMPLE_RATE;
+
+/** Audio is checked separately, only when there is a mixdown to encode. */
+export function supportsOfflineRender(): boolean {
+  return typeof VideoEncoder !== "undefined" && typeof VideoFrame !== "undefined";
+}
+
+/** Whether an offline render can also encode its audio. */
+export function supportsOfflineAudio(): boolean {
+  return typeof AudioEncoder !== "undefined" && typeof AudioData !== "undefined";
+}
+
+/** Parses ffmpeg-style bitrates such as "6M", "2500k" or "800000"; 0 when invalid. */
+export function parseBitrate(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kKmM]?)$/);
+  if (!match) {
+    return 0;
+  }
+  const unit = match[2].toLowerCase();
+  const factor = unit === "m" ? 1_000_000 : unit === "k" ? 1000 : 1;
+  return Math.round(Number(match[1]) * factor);
+}
+
+const toBytes = (source: AllowSharedBufferSource): Uint8Array<ArrayBuffer> => {
+  const view = ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source);
+  const bytes = new Uint8Array(view.byteLength);
+  bytes.set(view);
+  return bytes;
+};
+
+const waitForQueue = async (encoder: VideoEncoder | AudioEncoder) => {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+};
+
+// An encoder that hit an error is already closed, and flushing or closing it
+// again throws an InvalidStateError that would hide the error that matters.
+const closeEncoder = (encoder: VideoEncoder | AudioEncoder) => {
+  if (encoder.state !== "closed") {
+    encoder.close();
+  }
+};
+
+const finishEncoder = async (
+  encoder: VideoEncoder | AudioEncoder,
+  getFailure: () => Error | null
+) => {
+  try {
+    if (encoder.state !== "closed") {
+      await encoder.flush();
+    }
+  } catch (error) {
+    throw getFailure() ?? error;
+  } finally {
+    closeEncoder(encoder);
+  }
+  const failure = getFailure();
+  if (failure) {
+    throw failure;
+  }
+};
+
+const pickVideoCodec = async (
+  container: OfflineContainer,
+  width: number,
+  height: number,
+  frameRate: number,
+  bitrate: number
+): Promise<{ choice: CodecChoice; config: VideoEncoderConfig } | null> => {
+  for (const choice of VIDEO_CODECS[container]) {
+    const config: VideoEncoderConfig = {
+      codec: choice.codec,
+      width,
+      height,
+      framerate: frameRate,
+      ...(bitrate > 0 ? { bitrate } : {}),
+      // Length-prefixed H.264 with an avcC description, as MP4 stores it.
+      ...(choice.codec.startsWith("avc1") ? { avc: { format: "avc" as const } } : {}),
+    };
+    const support = await VideoEncoder.isConfigSupported(config);
+    if (support.supported) {
+      return { choice, config };
+    }
+  }
+  return null;
+};
+
+const pickAudioCodec = async (
+  container: OfflineContainer,
+  buffer: AudioBuffer,
+  bitrate: number
+): Promise<{ choice: CodecChoice; config: AudioEncoderConfig } | null> => {
+  for (const choice of AUDIO_CODECS[container]) {
+    const config: AudioEncoderConfig = {
+      codec: choice.codec,
+      sampleRate: buffer.sampleRate,
+      numberOfChannels: buffer.numberOfChannels,
+      ...(bitrate > 0 ? { bitrate } : {}),
+    };
+    const support = await AudioEncoder.isConfigSupported(config);
+    if (support.supported) {
+      return { choice, config };
+    }
+  }
+  return null;
+};
+
+const encodeAudio = async (
+  container: OfflineContainer,
+  buffer: AudioBuffer,
+  bitrate: number
+): Promise<{
+  codec: string;
+  samples: EncodedSample[];
+  description: Uint8Array<ArrayBuffer> | null;
+}> => {
+  const picked = supportsOfflineAudio() ? await pickAudioCodec(container, buffer, bitrate) : null;
+  if (!picked) {
+    throw new Error(
+      `This browser cannot encode ${container.toUpperCase()} audio; use the real-time export for sound.`
+    );
+  }
+
+  const samples: EncodedSample[] = [];
+  let description: Uint8Array<ArrayBuffer> | null = null;
+  let failure: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      samples.push({
+        data,
+        timestampUs: chunk.timestamp,
+        durationUs: chunk.duration ?? 0,
+        isKey: true,
+      });
+      if (metadata?.decoderConfig?.description && !description) {
+        description = toBytes(metadata.decoderConfig.description);
+      }
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure(picked.config);
+
+  const channels = buffer.numberOfChannels;
+  for (let offset = 0; offset < buffer.length; offset += AUDIO_CHUNK_FRAMES) {
+    if (encoder.state === "closed") {
+      break;
+    }
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, buffer.length - offset);
+    const planes = new Float32Array(frames * channels);
+    for (let channel = 0; channel < channels; channel += 1) {
+      const channelData = buffer.getChannelData(channel).subarray(offset, offset + frames);
+      planes.set(channelData, channel * frames);
+    }
+    const data = new AudioData({
+      format: "f32-planar",
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: channels,
+      timestamp: Math.round((offset / buffer.sampleRate) * 1_000_000),
+      data: planes,
+    });
+    encoder.encode(data);
+    data.close();
+    await waitForQueue(encoder);
+  }
+
+  await finishEncoder(encoder, () => failure);
+  return { codec: picked.choice.codec, samples, description };
+};
+
+/**
+ * Renders the stage frame by frame at exact frame times and encodes it with
+ * WebCodecs into an MP4 or WebM. Nothing depends on the wall clock, so the
+ * same project always gives the same file, and a fast machine renders it
+ * faster than real time. Resolves to null when cancelled.
+ */
+export async function renderOffline({
+  canvas,
+  container,
+  frameRate,
+  durationMs,
+  drawFrame,
+  audio,
+  videoBitrate,
+  audioBitrate,
+  onProgress,
+  isCancelled = () => false,
+}: OfflineRenderOptions): Promise<OfflineRenderResult | null> {
+  const { width, height } = canvas;
+  const picked = await pickVideoCodec(container, width, height, frameRate, videoBitrate);
+  if (!picked) {
+    throw new Error(
+      `No ${container.toUpperCase()} video codec can encode ${width}×${height} in this browser.`
+    );
+  }
+
+  const samples: EncodedSample[] = [];
+  let description: Uint8Array<ArrayBuffer> | null = null;
+  let failure: Error | null = null;
+  const frameDurationUs = Math.round(1_000_000 / frameRate);
+  const encoder = new VideoEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      samples.push({
+        data,
+        timestampUs: chunk.timestamp,
+        durationUs: chunk.duration ?? frameDurationUs,
+        isKey: chunk.type === "key",
+      });
+      if (metadata?.decoderConfig?.description && !description) {
+        description = toBytes(metadata.decoderConfig.description);
+      }
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+  encoder.configure(picked.config);
+
+  const totalFrames = getFrameCount(durationMs, frameRate);
+  const keyframeEvery = Math.round(frameRate * KEYFRAME_INTERVAL_S);
+
+  for (let index = 0; index < totalFrames; index += 1) {
+    if (isCancelled() || failure) {
+      closeEncoder(encoder);
+      if (failure) {
+        throw failure;
+      }
+      return null;
+    }
+
+    const timestamp = getFrameTimestamp(index, frameRate);
+    drawFrame(timestamp / 1000);
+    const frame = new VideoFrame(canvas, {
+      timestamp,
+      duration: getFrameTimestamp(index + 1, frameRate) - timestamp,
+    });
+    encoder.encode(frame, { keyFrame: index % keyframeEvery === 0 });
+    frame.close();
+
+    onProgress?.(index + 1, totalFrames);
+    await waitForQueue(encoder);
+  }
+
+  await finishEncoder(encoder, () => failure);
+
+  const encodedAudio = audio ? await encodeAudio(container, audio, audioBitrate) : null;
+  if (isCancelled()) {
+    return null;
+  }
+
+  const renderedMs = (totalFrames * 1000) / frameRate;
+  const audioTrack =
+    audio && encodedAudio
+      ? {
+          codec: encodedAudio.codec,
+          sampleRate: audio.sampleRate,
+          channels: audio.numberOfChannels,
+          description: encodedAudio.description,
+          samples: encodedAudio.samples,
+        }
+      : null;
+
+  const blob =
+    container === "mp4"
+      ? createMp4({
+          durationMs: renderedMs,
+          video: { codec: picked.choice.codec, width, height, description, samples },
+          audio: audioTrack,
+        })
+      : createWebm({
+          durationMs: renderedMs,
+          video: {
+            codecId: picked.choice.codec.startsWith("vp09") ? "V_VP9" : "V_VP8",
+            width,
+            height,
+            samples,
+          },
+          audio: audioTrack ? { ...audioTrack, codecPrivate: audioTrack.description } : null,
+        });
+
+  return {
+    blob,
+    container,
+    codec: picked.choice.codec,
+    codecName: picked.choice.name,
+    width,
+    height,
+    hasAudio: Boolean(audioTrack),
+  };
+}
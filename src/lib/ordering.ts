@@ -0,0 +1,258 @@
+import type { KeywordMatch } from "./text";
+
+export type MatchOrdering =
+  | "document"
+  | "round-robin"
+  | "by-article"
+  | "grouped"
+  | "random"
+  | "spread";
+
+export interface MatchOrderingOption {
+  value: MatchOrdering;
+  label: string;
+  description: string;
+}
+
+export interface OrderingOptions {
+  ordering: MatchOrdering;
+  maxMatches: number;
+  /** Most matches kept per keyword; 0 keeps them all. */
+  perKeywordCap: number;
+  /** Seed for the random ordering, so a shuffle can be reproduced. */
+  seed: number;
+  /**
+   * Character length of every paragraph, per article, so matches can be
+   * spread by where they sit in the text rather than by how many there are.
+   */
+  paragraphLengths: number[][];
+  /** Keyword labels in the order they were entered, for the grouped ordering. */
+  keywordOrder: string[];
+}
+
+export const MATCH_ORDERING_OPTIONS: MatchOrderingOption[] = [
+  {
+    value: "document",
+    label: "Document order",
+    description: "Matches in the order they appear in the article.",
+  },
+  {
+    value: "round-robin",
+    label: "Round-robin by keyword",
+    description: "Alternate between keywords so each one gets a turn.",
+  },
+  {
+    value: "by-article",
+    label: "Alternate articles",
+    description: "Take turns between the loaded articles, for cuts that jump between pages.",
+  },
+  {
+    value: "grouped",
+    label: "Grouped by keyword",
+    description: "Every match of the first keyword, then the next keyword.",
+  },
+  {
+    value: "random",
+    label: "Random (seeded)",
+    description: "Shuffled; the same seed always gives the same order.",
+  },
+  {
+    value: "spread",
+    label: "Evenly spread",
+    description: "At most one match from each stretch of the article, spaced out over the whole text.",
+  },
+];
+
+export const MAX_PER_KEYWORD_CAP = 200;
+
+export function getMatchOrderingOption(ordering: MatchOrdering): MatchOrderingOption {
+  return (
+    MATCH_ORDERING_OPTIONS.find((option) => option.value === ordering) ??
+    MATCH_ORDERING_OPTIONS[0]
+  );
+}
+
+export function clampPerKeywordCap(value: number): number {
+  if (!Number.isFinite(value) || value <= 0) {
+    return 0;
+  }
+  return Math.min(MAX_PER_KEYWORD_CAP, Math.round(value));
+}
+
+export function createOrderingSeed(): number {
+  return Math.floor(Math.random() * 1_000_000);
+}
+
+/** Describes the ordering and cap for the timeline header. */
+export function describeOrdering(ordering: MatchOrdering, perKeywordCap: number): string {
+  const label = getMatchOrderingOption(ordering).label.toLocaleLowerCase();
+  return perKeywordCap > 0 ? `${label} · max ${perKeywordCap} per keyword` : label;
+}
+
+// mulberry32: tiny, fast and good enough to shuffle a timeline reproducibly.
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const compareDocumentOrder = (a: KeywordMatch, b: KeywordMatch) =>
+  a.articleIndex - b.articleIndex || a.paragraphIndex - b.paragraphIndex || a.start - b.start;
+
+// Where a match sits in the loaded text: the article index plus the fraction
+// of that article before the match, so every article spans one unit.
+const createPositioner = (paragraphLengths: number[][]) => {
+  const offsets = paragraphLengths.map((lengths) => {
+    let total = 0;
+    const starts = lengths.map((length) => {
+      const start = total;
+      total += length;
+      return start;
+    });
+    return { starts, total };
+  });
+  return (match: KeywordMatch) => {
+    const article = offsets[match.articleIndex];
+    if (!article || article.total <= 0) {
+      return match.articleIndex;
+    }
+    const offset = (article.starts[match.paragraphIndex] ?? 0) + match.start;
+    return match.articleIndex + Math.min(1, offset / article.total);
+  };
+};
+
+// Picks exactly `count` matches (or all of them), in document order. The text
+// is split into `count` even ranges and each range that has matches keeps the
+// one nearest its centre; ranges without any then take the nearest match not
+// yet picked, so clustered hits still fill every slot.
+const pickEvenly = (
+  matches: KeywordMatch[],
+  count: number,
+  getPosition: (match: KeywordMatch) => number,
+  span: number
+): KeywordMatch[] => {
+  if (count >= matches.length) {
+    return matches;
+  }
+  const positions = matches.map(getPosition);
+  const centres = Array.from({ length: count }, (_, bucket) => ((bucket + 0.5) * span) / count);
+  const picked = new Set<number>();
+  const emptyBuckets: number[] = [];
+
+  const pickNearest = (centre: number, candidates: number[]) => {
+    const nearest = candidates.reduce<number | null>(
+      (best, index) =>
+        picked.has(index) ||
+        (best !== null &&
+          Math.abs(positions[best] - centre) <= Math.abs(positions[index] - centre))
+          ? best
+          : index,
+      null
+    );
+    if (nearest !== null) {
+      picked.add(nearest);
+    }
+    return nearest !== null;
+  };
+
+  const allIndexes = matches.map((_, index) => index);
+  centres.forEach((centre, bucket) => {
+    const inBucket = allIndexes.filter(
+      (index) => Math.min(count - 1, Math.floor((positions[index] / span) * count)) === bucket
+    );
+    if (!pickNearest(centre, inBucket)) {
+      emptyBuckets.push(bucket);
+    }
+  });
+  emptyBuckets.forEach((bucket) => pickNearest(centres[bucket], allIndexes));
+
+  return allIndexes.filter((index) => picked.has(index)).map((index) => matches[index]);
+};
+
+const groupBy = <K>(matches: KeywordMatch[], getKey: (match: KeywordMatch) => K) => {
+  const groups = new Map<K, KeywordMatch[]>();
+  matches.forEach((match) => {
+    const key = getKey(match);
+    const group = groups.get(key);
+    if (group) {
+      group.push(match);
+    } else {
+      groups.set(key, [match]);
+    }
+  });
+  return Array.from(groups.values());
+};
+
+// One match from each group per round until `limit` is reached.
+const takeTurns = (groups: KeywordMatch[][], limit: number): KeywordMatch[] => {
+  const ordered: KeywordMatch[] = [];
+  for (let round = 0; ordered.length < limit; round += 1) {
+    const turn = groups.filter((group) => round < group.length).map((group) => group[round]);
+    if (!turn.length) {
+      break;
+    }
+    ordered.push(...turn);
+  }
+  return ordered.slice(0, limit);
+};
+
+/**
+ * Applies the per-keyword cap, orders the matches and trims them to
+ * `maxMatches`. Capped keywords keep occurrences spread over the article
+ * rather than only the first few.
+ */
+export function orderMatches(matches: KeywordMatch[], options: OrderingOptions): KeywordMatch[] {
+  const { ordering, maxMatches, perKeywordCap, seed, paragraphLengths, keywordOrder } = options;
+  const limit = Math.max(0, maxMatches);
+  const getPosition = createPositioner(paragraphLengths);
+  const span = Math.max(1, paragraphLengths.length);
+  const sorted = [...matches].sort(compareDocumentOrder);
+  const groups = groupBy(sorted, (match) => match.keyword).map((group) =>
+    perKeywordCap > 0 ? pickEvenly(group, perKeywordCap, getPosition, span) : group
+  );
+
+  switch (ordering) {
+    case "round-robin":
+      return takeTurns(groups, limit);
+
+    case "by-article":
+      return takeTurns(
+        groupBy(groups.flat().sort(compareDocumentOrder), (match) => match.articleIndex),
+        limit
+      );
+
+    case "grouped": {
+      // Keywords missing from the list (none, normally) go last.
+      const rank = (group: KeywordMatch[]) => {
+        const index = keywordOrder.indexOf(group[0].keyword);
+        return index === -1 ? keywordOrder.length : index;
+      };
+      return [...groups]
+        .sort((a, b) => rank(a) - rank(b))
+        .flat()
+        .slice(0, limit);
+    }
+
+    case "random": {
+      const random = createRandom(seed);
+      const shuffled = groups.flat();
+      for (let index = shuffled.length - 1; index > 0; index -= 1) {
+        const swap = Math.floor(random() * (index + 1));
+        [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+      }
+      return shuffled.slice(0, limit);
+    }
+
+    case "spread":
+      return pickEvenly(groups.flat().sort(compareDocumentOrder), limit, getPosition, span);
+
+    case "document":
+    default:
+      return groups.flat().sort(compareDocumentOrder).slice(0, limit);
+  }
+}
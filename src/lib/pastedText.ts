@@ -0,0 +1,125 @@
+import { ARTICLE_SOURCE_LABELS, createArticle, type ArticleSource } from "./sources";
+import { createLeadSection, splitParagraphs } from "./sections";
+import type { SupportedLanguage, WikiArticle } from "./wiki";
+
+export const PASTED_TEXT_FILE_ACCEPT = ".txt,.md,.markdown,text/plain,text/markdown";
+const DEFAULT_PASTED_TITLE = "Pasted text";
+
+const HEADING_PATTERN = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/;
+const SETEXT_UNDERLINE_PATTERN = /^\s{0,3}(=+|-+)\s*$/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const FENCE_PATTERN = /^\s{0,3}(```|~~~)/;
+
+function stripInlineMarkdown(line: string): string {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/(^|\W)__(.+?)__(?!\w)/g, "$1$2")
+    .replace(/\*(\S(?:.*?\S)?)\*/g, "$1")
+    .replace(/(^|\W)_(\S(?:.*?\S)?)_(?!\w)/g, "$1$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/^\s{0,3}>\s?/, "");
+}
+
+/**
+ * Flattens Markdown (or plain text) into blank-line separated blocks so it can
+ * go through the same paragraph splitting as Wikipedia extracts. Headings and
+ * list items each become their own paragraph.
+ */
+export function stripMarkdown(rawText: string): string {
+  const lines = rawText.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: string[] = [];
+  let insideFence = false;
+
+  lines.forEach((line, index) => {
+    if (FENCE_PATTERN.test(line)) {
+      insideFence = !insideFence;
+      blocks.push("");
+      return;
+    }
+
+    if (insideFence) {
+      blocks.push(line);
+      return;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push("");
+      return;
+    }
+
+    const nextLine = lines[index + 1];
+    if (
+      nextLine !== undefined &&
+      line.trim() &&
+      SETEXT_UNDERLINE_PATTERN.test(nextLine) &&
+      !LIST_ITEM_PATTERN.test(line)
+    ) {
+      blocks.push("", stripInlineMarkdown(line).trim(), "");
+      return;
+    }
+
+    if (SETEXT_UNDERLINE_PATTERN.test(line) && index > 0 && lines[index - 1].trim()) {
+      return;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push("", stripInlineMarkdown(heading[1]).trim(), "");
+      return;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      blocks.push("", stripInlineMarkdown(line.replace(LIST_ITEM_PATTERN, "")).trim(), "");
+      return;
+    }
+
+    blocks.push(stripInlineMarkdown(line));
+  });
+
+  return blocks.join("\n");
+}
+
+function findFirstHeading(rawText: string): string | null {
+  for (const line of rawText.replace(/\r\n?/g, "\n").split("\n")) {
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      return stripInlineMarkdown(heading[1]).trim() || null;
+    }
+  }
+  return null;
+}
+
+export function createPastedTextSource(text: string, title = DEFAULT_PASTED_TITLE): ArticleSource {
+  return {
+    id: "text",
+    label: ARTICLE_SOURCE_LABELS.text,
+    search: async () => title.trim() || DEFAULT_PASTED_TITLE,
+    fetch: async () => ({ rawText: text, revisionId: null, revisionTimestamp: null }),
+    normalize: (rawText) => [createLeadSection(splitParagraphs(stripMarkdown(rawText)))],
+  };
+}
+
+export function createArticleFromText(
+  text: string,
+  title: string,
+  language: SupportedLanguage
+): WikiArticle | null {
+  const resolvedTitle = title.trim() || findFirstHeading(text) || DEFAULT_PASTED_TITLE;
+  const source = createPastedTextSource(text, resolvedTitle);
+  const article = createArticle(source, resolvedTitle, language, {
+    rawText: text,
+    revisionId: null,
+    revisionTimestamp: null,
+  });
+
+  return article.paragraphs.length > 0 ? article : null;
+}
+
+export function titleFromFilename(filename: string): string {
+  return filename.replace(/\.(txt|md|markdown)$/i, "").replace(/[_-]+/g, " ").trim();
+}
@@ -0,0 +1,112 @@
+import type { SearchPayload } from "../components/SearchPanel";
+import type { ArticleSourceId } from "./sources";
+import { createArticleFromText } from "./pastedText";
+import { fetchArticleByTitle, type SupportedLanguage, type WikiArticle } from "./wiki";
+
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_ACCEPT = ".json,application/json";
+
+export interface ProjectArticleRef {
+  source: ArticleSourceId;
+  title: string;
+  language: SupportedLanguage;
+  revisionId: number | null;
+  revisionTimestamp: string | null;
+  /** Pasted text has no revision to refetch, so it travels with the project. */
+  rawText?: string;
+}
+
+export interface SavedProject {
+  version: number;
+  savedAt: string;
+  payload: SearchPayload;
+  article: ProjectArticleRef;
+  /** The other articles of a multi-article timeline, in load order. */
+  extraArticles?: ProjectArticleRef[];
+}
+
+const createArticleRef = (article: WikiArticle): ProjectArticleRef => ({
+  source: article.source,
+  title: article.title,
+  language: article.language,
+  revisionId: article.revisionId,
+  revisionTimestamp: article.revisionTimestamp,
+  rawText: article.source === "text" ? article.rawText : undefined,
+});
+
+export function createProject(
+  payload: SearchPayload,
+  article: WikiArticle,
+  extraArticles: WikiArticle[] = []
+): SavedProject {
+  return {
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    payload,
+    article: createArticleRef(article),
+    extraArticles: extraArticles.length ? extraArticles.map(createArticleRef) : undefined,
+  };
+}
+
+export function serializeProject(project: SavedProject): string {
+  return JSON.stringify(project, null, 2);
+}
+
+export function parseProject(json: string): SavedProject {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error("Project file is not valid JSON.");
+  }
+
+  const project = value as Partial<SavedProject> | null;
+  const article = project?.article;
+
+  if (
+    !project ||
+    typeof project.version !== "number" ||
+    !project.payload ||
+    !article ||
+    typeof article.title !== "string" ||
+    typeof article.language !== "string"
+  ) {
+    throw new Error("Project file is missing its article or search settings.");
+  }
+
+  if (project.version > PROJECT_FILE_VERSION) {
+    throw new Error(
+      `Project file version ${project.version} is newer than this app supports (${PROJECT_FILE_VERSION}).`
+    );
+  }
+
+  return project as SavedProject;
+}
+
+/**
+ * Reloads the exact article text a project was built from: pasted text comes
+ * from the file itself, Wikipedia articles are fetched at their saved revision.
+ */
+const loadArticleRef = async (article: ProjectArticleRef): Promise<WikiArticle> => {
+  if (article.source === "text") {
+    const restored = createArticleFromText(article.rawText ?? "", article.title, article.language);
+    if (!restored) {
+      throw new Error("Project file does not contain the pasted article text.");
+    }
+    return restored;
+  }
+
+  return fetchArticleByTitle(article.title, article.language, {
+    revisionId: article.revisionId,
+  });
+};
+
+/** Every article of the project, the main one first, each at its saved revision. */
+export async function loadProjectArticles(project: SavedProject): Promise<WikiArticle[]> {
+  const articles = [await loadArticleRef(project.article)];
+  for (const ref of project.extraArticles ?? []) {
+    articles.push(await loadArticleRef(ref));
+  }
+  return articles;
+}
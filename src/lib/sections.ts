@@ -0,0 +1,162 @@
+import type { WikiArticle } from "./wiki";
+
+export interface ArticleSection {
+  heading: string;
+  level: number;
+  path: string[];
+  paragraphs: string[];
+}
+
+export interface SectionFilter {
+  excludedSections: string[];
+  paragraphLimit: number;
+}
+
+export const LEAD_SECTION_LABEL = "Introduction";
+export const DEFAULT_PARAGRAPH_LIMIT = 30;
+export const MAX_PARAGRAPH_LIMIT = 500;
+export const DEFAULT_EXCLUDED_SECTIONS = [
+  "References",
+  "See also",
+  "External links",
+  "Notes",
+  "Further reading",
+  "Bibliography",
+  "Sources",
+  "Citations",
+];
+
+export const DEFAULT_SECTION_FILTER: SectionFilter = {
+  excludedSections: DEFAULT_EXCLUDED_SECTIONS,
+  paragraphLimit: DEFAULT_PARAGRAPH_LIMIT,
+};
+
+const HEADING_PATTERN = /^(={2,6})\s*(.+?)\s*\1\s*$/;
+
+export function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n{2,}/g)
+    .map((paragraph) => paragraph.replace(/\n+/g, " ").trim())
+    .filter(Boolean);
+}
+
+export function splitSectionNames(input: string): string[] {
+  return input
+    .split(/[,;\n]/g)
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+export function clampParagraphLimit(value: number): number {
+  if (!Number.isFinite(value)) {
+    return DEFAULT_PARAGRAPH_LIMIT;
+  }
+  return Math.min(MAX_PARAGRAPH_LIMIT, Math.max(1, Math.round(value)));
+}
+
+export function createLeadSection(paragraphs: string[]): ArticleSection {
+  return { heading: "", level: 1, path: [], paragraphs };
+}
+
+/**
+ * Splits a plain-text extract on its `== Heading ==` markers. Text before the
+ * first heading becomes the lead section; deeper headings nest under the
+ * nearest shallower one so each section knows its full path.
+ */
+export function parseSections(rawText: string): ArticleSection[] {
+  const sections: ArticleSection[] = [];
+  const stack: Array<{ level: number; heading: string }> = [];
+  let heading = "";
+  let level = 1;
+  let buffer: string[] = [];
+
+  const flush = () => {
+    const paragraphs = splitParagraphs(buffer.join("\n"));
+    buffer = [];
+
+    if (!heading && !paragraphs.length) {
+      return;
+    }
+
+    sections.push({
+      heading,
+      level,
+      path: stack.map((entry) => entry.heading),
+      paragraphs,
+    });
+  };
+
+  rawText.replace(/\r\n?/g, "\n").split("\n").forEach((line) => {
+    const match = HEADING_PATTERN.exec(line.trim());
+
+    if (!match) {
+      buffer.push(line);
+      return;
+    }
+
+    flush();
+    heading = match[2];
+    level = match[1].length;
+
+    while (stack.length && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    stack.push({ level, heading });
+  });
+
+  flush();
+  return sections;
+}
+
+export function formatSectionPath(path: string[]): string {
+  return path.length ? path.join(" › ") : LEAD_SECTION_LABEL;
+}
+
+export function isSectionExcluded(section: ArticleSection, excluded: string[]): boolean {
+  if (!excluded.length) {
+    return false;
+  }
+
+  const names = new Set(excluded.map((name) => name.toLocaleLowerCase()));
+  return section.path.some((heading) => names.has(heading.toLocaleLowerCase()));
+}
+
+/**
+ * Rebuilds the flat `paragraphs` list that matching works on from the article
+ * sections, dropping excluded sections and stopping at the paragraph cap.
+ */
+export function applySectionFilter(
+  article: WikiArticle,
+  filter: SectionFilter = DEFAULT_SECTION_FILTER
+): WikiArticle {
+  const limit = clampParagraphLimit(filter.paragraphLimit);
+  const paragraphs: string[] = [];
+  const paragraphSections: number[] = [];
+
+  article.sections.forEach((section, sectionIndex) => {
+    if (isSectionExcluded(section, filter.excludedSections)) {
+      return;
+    }
+
+    section.paragraphs.forEach((paragraph) => {
+      if (paragraphs.length < limit) {
+        paragraphs.push(paragraph);
+        paragraphSections.push(sectionIndex);
+      }
+    });
+  });
+
+  return {
+    ...article,
+    paragraphs,
+    paragraphSections,
+  };
+}
+
+export function getParagraphSection(
+  article: WikiArticle,
+  paragraphIndex: number
+): ArticleSection | null {
+  const sectionIndex = article.paragraphSections[paragraphIndex];
+  return sectionIndex === undefined ? null : article.sections[sectionIndex] ?? null;
+}
@@ -0,0 +1,120 @@
+import { normalizeLanguageCode } from "./languages";
+
+export interface WordSegment {
+  text: string;
+  index: number;
+  isWordLike: boolean;
+}
+
+// Scripts written without spaces between words. Chinese varieties written in
+// Latin script (zh-min-nan, hak, cdo) are deliberately absent.
+const SEGMENTED_LANGUAGES = new Set([
+  "th",
+  "lo",
+  "km",
+  "my",
+  "shn",
+  "bo",
+  "dz",
+  "ja",
+  "zh",
+  "zh-classical",
+  "zh-yue",
+  "yue",
+  "wuu",
+  "gan",
+  "lzh",
+]);
+
+const segmenters = new Map<string, Intl.Segmenter | null>();
+
+const createSegmenter = (language: string): Intl.Segmenter | null => {
+  if (typeof Intl === "undefined" || typeof Intl.Segmenter !== "function") {
+    return null;
+  }
+
+  // Wikipedia codes such as "zh-classical" are not valid BCP 47 tags, so fall
+  // back to the primary subtag when the full code is rejected.
+  for (const locale of [language, language.split("-")[0]]) {
+    try {
+      return new Intl.Segmenter(locale, { granularity: "word" });
+    } catch {
+      // Try the next candidate.
+    }
+  }
+
+  return null;
+};
+
+const getSegmenter = (language: string): Intl.Segmenter | null => {
+  if (!segmenters.has(language)) {
+    segmenters.set(language, createSegmenter(language));
+  }
+  return segmenters.get(language) ?? null;
+};
+
+export function needsWordSegmentation(language: string): boolean {
+  const code = normalizeLanguageCode(language);
+  return code ? SEGMENTED_LANGUAGES.has(code) : false;
+}
+
+const splitOnWhitespace = (text: string): WordSegment[] => {
+  const segments: WordSegment[] = [];
+  let index = 0;
+
+  text
+    .split(/(\s+)/)
+    .filter(Boolean)
+    .forEach((part) => {
+      segments.push({ text: part, index, isWordLike: part.trim().length > 0 });
+      index += part.length;
+    });
+
+  return segments;
+};
+
+/**
+ * Splits text into words and the runs between them. Languages written without
+ * spaces go through `Intl.Segmenter`; everything else, and browsers without
+ * it, split on whitespace.
+ */
+export function segmentWords(text: string, language: string): WordSegment[] {
+  const segmenter = needsWordSegmentation(language) ? getSegmenter(language) : null;
+
+  if (!segmenter) {
+    return splitOnWhitespace(text);
+  }
+
+  return Array.from(segmenter.segment(text), ({ segment, index, isWordLike }) => ({
+    text: segment,
+    index,
+    isWordLike: Boolean(isWordLike),
+  }));
+}
+
+/** Offsets where a word starts or ends, including both ends of the text. */
+export function getWordBoundaries(text: string, language: string): Set<number> {
+  const boundaries = new Set<number>([0, text.length]);
+
+  segmentWords(text, language).forEach(({ text: segment, index }) => {
+    boundaries.add(index);
+    boundaries.add(index + segment.length);
+  });
+
+  return boundaries;
+}
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}\p{N}]+)*/gu;
+
+/** Word-like segments only, without surrounding punctuation. */
+export function findWords(text: string, language: string): WordSegment[] {
+  if (needsWordSegmentation(language)) {
+    return segmentWords(text, language).filter((segment) => segment.isWordLike);
+  }
+
+  return Array.from(text.matchAll(WORD_PATTERN), (match) => ({
+    text: match[0],
+    index: match.index ?? 0,
+    isWordLike: true,
+  }));
+}
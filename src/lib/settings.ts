@@ -1,3 +1,5 @@
+import type { AudioMixSettings } from "./audioMix";
+
 export interface StagePhaseToggles {
   intro: boolean;
   pan: boolean;
@@ -50,10 +52,43 @@ export const CUSTOM_FONT_PRESET_ID = "custom";
 
 export type StagePlaybackMode = "cinematic" | "centered";
 
+export type SpeedRampCurve = "none" | "linear" | "exponential" | "keyframes";
+
+export interface SpeedRampKeyframe {
+  /** Position through the sequence, 0 for the first cut and 1 for the last. */
+  position: number;
+  /** Duration scale at that position; below 1 is faster. */
+  scale: number;
+}
+
+export interface SpeedRamp {
+  curve: SpeedRampCurve;
+  startScale: number;
+  endScale: number;
+  keyframes: SpeedRampKeyframe[];
+  /** Shortest and longest a cut may be after ramping, in ms; 0 means no limit. */
+  minCutMs: number;
+  maxCutMs: number;
+}
+
+export interface BeatSync {
+  /** Lengthen cuts so each one starts on a beat of the loaded track. */
+  enabled: boolean;
+  /** Manual tempo; 0 uses the tempo detected in the track. */
+  bpm: number;
+  /** Shifts the beat grid, in ms, when the detected first beat is off. */
+  offsetMs: number;
+}
+
 export interface StagePreferences {
   phases: StagePhaseToggles;
   playbackMode: StagePlaybackMode;
   speedMultiplier: number;
+  speedRamp: SpeedRamp;
+  /** Total runtime the timeline is fitted to, in ms; 0 keeps the natural length. */
+  targetRuntimeMs: number;
+  beatSync: BeatSync;
+  audioMix: AudioMixSettings;
   centeredZoomScale: number;
   fontPreset: string;
   customFontFamily: string;
@@ -75,6 +110,29 @@ export const DEFAULT_STAGE_PREFERENCES: StagePreferences = {
   },
   playbackMode: "cinematic",
   speedMultiplier: 1,
+  speedRamp: {
+    curve: "none",
+    startScale: 1.6,
+    endScale: 0.4,
+    keyframes: [
+      { position: 0, scale: 1.6 },
+      { position: 0.6, scale: 0.8 },
+      { position: 1, scale: 0.3 },
+    ],
+    minCutMs: 0,
+    maxCutMs: 0,
+  },
+  targetRuntimeMs: 0,
+  beatSync: {
+    enabled: true,
+    bpm: 0,
+    offsetMs: 0,
+  },
+  audioMix: {
+    musicVolume: 1,
+    effectsVolume: 0.6,
+    cutSound: "none",
+  },
   centeredZoomScale: 1.15,
   fontPreset: FONT_PRESETS[0]?.id ?? "inter",
   customFontFamily: "",
@@ -95,6 +153,16 @@ export function clampSpeedMultiplier(value: number): number {
   return Math.min(4, Math.max(0.25, Number(value)));
 }
 
+export const TARGET_RUNTIME_PRESETS_MS = [15000, 30000, 60000];
+export const MAX_TARGET_RUNTIME_MS = 600000;
+
+export function clampTargetRuntime(value: number): number {
+  if (!Number.isFinite(value) || value <= 0) {
+    return 0;
+  }
+  return Math.min(MAX_TARGET_RUNTIME_MS, Math.round(value));
+}
+
 export function clampCenteredZoom(value: number): number {
   if (!Number.isFinite(value)) {
     return DEFAULT_STAGE_PREFERENCES.centeredZoomScale;
@@ -135,6 +203,17 @@ export function resolveFontFamilies(preferences: StagePreferences): {
   };
 }
 
+export function cloneSpeedRamp(
+  ramp: SpeedRamp = DEFAULT_STAGE_PREFERENCES.speedRamp
+): SpeedRamp {
+  const base = DEFAULT_STAGE_PREFERENCES.speedRamp;
+  return {
+    ...base,
+    ...ramp,
+    keyframes: (ramp.keyframes ?? base.keyframes).map((keyframe) => ({ ...keyframe })),
+  };
+}
+
 export function cloneStagePreferences(
   preferences: StagePreferences = DEFAULT_STAGE_PREFERENCES
 ): StagePreferences {
@@ -142,5 +221,8 @@ export function cloneStagePreferences(
     ...DEFAULT_STAGE_PREFERENCES,
     ...preferences,
     phases: { ...DEFAULT_STAGE_PREFERENCES.phases, ...preferences.phases },
+    speedRamp: cloneSpeedRamp(preferences.speedRamp),
+    beatSync: { ...DEFAULT_STAGE_PREFERENCES.beatSync, ...preferences.beatSync },
+    audioMix: { ...DEFAULT_STAGE_PREFERENCES.audioMix, ...preferences.audioMix },
   };
 }
@@ -0,0 +1,73 @@
+import type { SupportedLanguage, WikiArticle } from "./wiki";
+import {
+  DEFAULT_SECTION_FILTER,
+  applySectionFilter,
+  type ArticleSection,
+  type SectionFilter,
+} from "./sections";
+
+export type ArticleSourceId = "wikipedia" | "text";
+
+export interface ArticleText {
+  rawText: string;
+  /** Revision the text was taken from, when the source is versioned. */
+  revisionId: number | null;
+  revisionTimestamp: string | null;
+}
+
+export interface ArticleSource {
+  id: ArticleSourceId;
+  label: string;
+  search(query: string, language: SupportedLanguage): Promise<string | null>;
+  fetch(
+    title: string,
+    language: SupportedLanguage,
+    revisionId?: number | null
+  ): Promise<ArticleText>;
+  normalize(rawText: string): ArticleSection[];
+}
+
+export const ARTICLE_SOURCE_LABELS: Record<ArticleSourceId, string> = {
+  wikipedia: "Wikipedia",
+  text: "Pasted text",
+};
+
+export function getArticleSourceLabel(id: ArticleSourceId): string {
+  return ARTICLE_SOURCE_LABELS[id] ?? id;
+}
+
+export function describeArticleSource(article: WikiArticle): string {
+  return `${getArticleSourceLabel(article.source)} (${article.language.toUpperCase()})`;
+}
+
+export function describeArticleRevision(article: WikiArticle): string | null {
+  if (article.revisionId === null) {
+    return null;
+  }
+
+  const date = article.revisionTimestamp ? article.revisionTimestamp.slice(0, 10) : null;
+  return date ? `rev ${article.revisionId} · ${date}` : `rev ${article.revisionId}`;
+}
+
+export function createArticle(
+  source: ArticleSource,
+  title: string,
+  language: SupportedLanguage,
+  text: ArticleText,
+  filter: SectionFilter = DEFAULT_SECTION_FILTER
+): WikiArticle {
+  return applySectionFilter(
+    {
+      title,
+      language,
+      source: source.id,
+      revisionId: text.revisionId,
+      revisionTimestamp: text.revisionTimestamp,
+      rawText: text.rawText,
+      sections: source.normalize(text.rawText),
+      paragraphs: [],
+      paragraphSections: [],
+    },
+    filter
+  );
+}
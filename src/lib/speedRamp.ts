@@ -0,0 +1,132 @@
+import type { SpeedRamp, SpeedRampCurve, SpeedRampKeyframe } from "./settings";
+
+export const SPEED_RAMP_CURVES: Array<{ value: SpeedRampCurve; label: string }> = [
+  { value: "none", label: "Off" },
+  { value: "linear", label: "Linear" },
+  { value: "exponential", label: "Exponential" },
+  { value: "keyframes", label: "Custom keyframes" },
+];
+
+export const MIN_RAMP_SCALE = 0.1;
+export const MAX_RAMP_SCALE = 4;
+export const MAX_CUT_LIMIT_MS = 20000;
+
+export function clampRampScale(value: number): number {
+  if (!Number.isFinite(value)) {
+    return 1;
+  }
+  return Math.min(MAX_RAMP_SCALE, Math.max(MIN_RAMP_SCALE, value));
+}
+
+export function clampCutLimit(value: number): number {
+  if (!Number.isFinite(value) || value <= 0) {
+    return 0;
+  }
+  return Math.min(MAX_CUT_LIMIT_MS, Math.round(value));
+}
+
+const interpolateKeyframes = (keyframes: SpeedRampKeyframe[], position: number): number => {
+  const sorted = [...keyframes].sort((a, b) => a.position - b.position);
+  if (!sorted.length) {
+    return 1;
+  }
+
+  if (position <= sorted[0].position) {
+    return sorted[0].scale;
+  }
+
+  for (let index = 1; index < sorted.length; index += 1) {
+    const previous = sorted[index - 1];
+    const next = sorted[index];
+    if (position <= next.position) {
+      const span = next.position - previous.position;
+      const t = span > 0 ? (position - previous.position) / span : 1;
+      return previous.scale + (next.scale - previous.scale) * t;
+    }
+  }
+
+  return sorted[sorted.length - 1].scale;
+};
+
+/** Duration scale for the cut at `index` of `count`; 1 when the ramp is off. */
+export function getRampScale(ramp: SpeedRamp | undefined, index: number, count: number): number {
+  if (!ramp || ramp.curve === "none") {
+    return 1;
+  }
+
+  const position = count > 1 ? index / (count - 1) : 0;
+  const start = clampRampScale(ramp.startScale);
+  const end = clampRampScale(ramp.endScale);
+
+  switch (ramp.curve) {
+    case "linear":
+      return start + (end - start) * position;
+    case "exponential":
+      return start * (end / start) ** position;
+    case "keyframes":
+      return clampRampScale(interpolateKeyframes(ramp.keyframes, position));
+    default:
+      return 1;
+  }
+}
+
+/** Formats keyframes as "0:1.6, 0.6:0.8, 1:0.3" for editing. */
+export function formatRampKeyframes(keyframes: SpeedRampKeyframe[]): string {
+  return keyframes.map(({ position, scale }) => `${position}:${scale}`).join(", ");
+}
+
+/** Parses "position:scale" pairs; returns null when any pair is malformed. */
+export function parseRampKeyframes(input: string): SpeedRampKeyframe[] | null {
+  const pairs = input
+    .split(/[,;\n]/)
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  if (!pairs.length) {
+    return null;
+  }
+
+  const keyframes: SpeedRampKeyframe[] = [];
+
+  for (const pair of pairs) {
+    const [positionText, scaleText] = pair.split(":").map((value) => value.trim());
+    const position = Number(positionText);
+    const scale = Number(scaleText);
+
+    if (
+      !positionText ||
+      !scaleText ||
+      !Number.isFinite(position) ||
+      !Number.isFinite(scale) ||
+      position < 0 ||
+      position > 1 ||
+      scale <= 0
+    ) {
+      return null;
+    }
+
+    keyframes.push({ position, scale: clampRampScale(scale) });
+  }
+
+  return keyframes.sort((a, b) => a.position - b.position);
+}
+
+/** Short label for the timeline header; null when the ramp is off. */
+export function describeSpeedRamp(ramp: SpeedRamp | undefined): string | null {
+  if (!ramp || ramp.curve === "none") {
+    return null;
+  }
+
+  const label =
+    ramp.curve === "keyframes"
+      ? `keyframe ramp (${ramp.keyframes.length} points)`
+      : `${ramp.curve} ramp ×${clampRampScale(ramp.startScale).toFixed(2)} → ×${clampRampScale(
+          ramp.endScale
+        ).toFixed(2)}`;
+  const limits = [
+    ramp.minCutMs > 0 ? `min ${ramp.minCutMs} ms` : null,
+    ramp.maxCutMs > 0 ? `max ${ramp.maxCutMs} ms` : null,
+  ].filter(Boolean);
+
+  return limits.length ? `${label}, ${limits.join(" / ")}` : label;
+}
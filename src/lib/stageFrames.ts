@@ -0,0 +1,165 @@
+import type { ScheduledSound, SoundEffect } from "./audioMix";
+import type { StagePhaseToggles } from "./settings";
+import type { TimelineItem } from "./text";
+
+export type StagePhase = "idle" | "intro" | "pan" | "zoom" | "highlight" | "hold" | "transition";
+
+/** Camera and highlight state of the stage at one instant. */
+export interface FrameState {
+  scale: number;
+  offsetY: number;
+  highlightAlpha: number;
+}
+
+/** One eased phase of one cut, placed on the export clock. */
+export interface StageSegment {
+  matchIndex: number;
+  phase: StagePhase;
+  startMs: number;
+  durationMs: number;
+  from: FrameState;
+  to: FrameState;
+}
+
+export interface StageSchedule {
+  segments: StageSegment[];
+  /** Start of each cut's transition, where its sound effect fires. */
+  cues: Array<{ matchIndex: number; timeMs: number; durationMs: number }>;
+  durationMs: number;
+}
+
+export interface StageFrame {
+  matchIndex: number;
+  phase: StagePhase;
+  state: FrameState;
+}
+
+export interface StageScheduleOptions {
+  phases: StagePhaseToggles;
+  isCenteredMode: boolean;
+  /** Scale every cut starts from. */
+  baseScale: number;
+}
+
+export const RENDER_FRAME_RATES = [24, 30, 60] as const;
+export type RenderFrameRate = (typeof RENDER_FRAME_RATES)[number];
+export const DEFAULT_RENDER_FRAME_RATE: RenderFrameRate = 30;
+
+export const easeInOut = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+export const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+/**
+ * Lays the timeline out as eased segments, phase by phase, exactly as the
+ * stage plays it: disabled or empty phases are skipped and every cut starts
+ * from `baseScale`. Live playback and offline rendering both walk this list.
+ */
+export function buildStageSchedule(
+  timeline: TimelineItem[],
+  { phases, isCenteredMode, baseScale }: StageScheduleOptions
+): StageSchedule {
+  const segments: StageSegment[] = [];
+  const cues: StageSchedule["cues"] = [];
+  let elapsedMs = 0;
+
+  timeline.forEach((item, matchIndex) => {
+    let state: FrameState = { scale: baseScale, offsetY: 0, highlightAlpha: 0 };
+
+    const push = (
+      enabled: boolean,
+      phase: StagePhase,
+      durationMs: number,
+      target: Partial<FrameState>
+    ) => {
+      const duration = Math.max(0, Math.round(durationMs));
+      if (!enabled || duration === 0) {
+        return;
+      }
+      const to = { ...state, ...target };
+      segments.push({
+        matchIndex,
+        phase,
+        startMs: elapsedMs,
+        durationMs: duration,
+        from: state,
+        to,
+      });
+      state = to;
+      elapsedMs += duration;
+    };
+
+    push(phases.intro && !isCenteredMode, "intro", item.introMs, { scale: 1, highlightAlpha: 0 });
+    push(phases.pan, "pan", item.panMs, { offsetY: -60 });
+    push(phases.zoom, "zoom", item.zoomMs, { scale: 1.18 });
+    push(phases.highlight, "highlight", item.highlightMs, { highlightAlpha: 1 });
+    push(phases.hold, "hold", item.holdMs, {});
+    cues.push({ matchIndex, timeMs: elapsedMs, durationMs: item.transitionMs });
+    push(
+      phases.transition,
+      "transition",
+      item.transitionMs,
+      isCenteredMode
+        ? { highlightAlpha: 0, offsetY: 0 }
+        : { highlightAlpha: 0, scale: 1, offsetY: 0 }
+    );
+  });
+
+  return { segments, cues, durationMs: elapsedMs };
+}
+
+/** The stage at `timeMs`; past the end it holds the last frame. */
+export function sampleStageFrame(schedule: StageSchedule, timeMs: number): StageFrame | null {
+  const { segments } = schedule;
+  if (!segments.length) {
+    return null;
+  }
+
+  // Binary search for the last segment starting at or before timeMs.
+  let low = 0;
+  let high = segments.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (segments[mid].startMs <= timeMs) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const segment = segments[low];
+  const t = Math.min(1, Math.max(0, (timeMs - segment.startMs) / segment.durationMs));
+  const eased = easeInOut(t);
+  return {
+    matchIndex: segment.matchIndex,
+    phase: segment.phase,
+    state: {
+      scale: lerp(segment.from.scale, segment.to.scale, eased),
+      offsetY: lerp(segment.from.offsetY, segment.to.offsetY, eased),
+      highlightAlpha: lerp(segment.from.highlightAlpha, segment.to.highlightAlpha, eased),
+    },
+  };
+}
+
+/** Frames needed to cover the whole schedule at `frameRate`. */
+export function getFrameCount(durationMs: number, frameRate: number): number {
+  return Math.max(1, Math.ceil((durationMs * frameRate) / 1000));
+}
+
+/** Exact time of frame `index`, in microseconds as WebCodecs expects. */
+export function getFrameTimestamp(index: number, frameRate: number): number {
+  return Math.round((index * 1_000_000) / frameRate);
+}
+
+/** Sound effects placed on the schedule, for an offline mixdown. */
+export function getScheduledSounds(
+  schedule: StageSchedule,
+  sounds: SoundEffect[]
+): ScheduledSound[] {
+  return schedule.cues
+    .map(({ matchIndex, timeMs, durationMs }) => ({
+      effect: sounds[matchIndex] ?? "none",
+      timeMs,
+      durationMs,
+    }))
+    .filter((sound) => sound.effect !== "none");
+}
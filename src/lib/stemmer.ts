@@ -0,0 +1,232 @@
+import { normalizeLanguageCode } from "./languages";
+
+// Irregular forms the suffix rules cannot reach, keyed by lemma.
+const IRREGULAR_FORMS: Record<string, string[]> = {
+  be: ["am", "is", "are", "was", "were", "been", "being"],
+  have: ["has", "had", "having"],
+  do: ["does", "did", "done", "doing"],
+  go: ["goes", "went", "gone", "going"],
+  run: ["ran"],
+  begin: ["began", "begun"],
+  break: ["broke", "broken"],
+  bring: ["brought"],
+  build: ["built"],
+  buy: ["bought"],
+  catch: ["caught"],
+  choose: ["chose", "chosen"],
+  come: ["came"],
+  draw: ["drew", "drawn"],
+  drink: ["drank", "drunk"],
+  drive: ["drove", "driven"],
+  eat: ["ate", "eaten"],
+  fall: ["fell", "fallen"],
+  feel: ["felt"],
+  fight: ["fought"],
+  find: ["found"],
+  fly: ["flew", "flown"],
+  forget: ["forgot", "forgotten"],
+  freeze: ["froze", "frozen"],
+  get: ["got", "gotten"],
+  give: ["gave", "given"],
+  grow: ["grew", "grown"],
+  hold: ["held"],
+  keep: ["kept"],
+  know: ["knew", "known"],
+  lead: ["led"],
+  leave: ["left"],
+  lose: ["lost"],
+  make: ["made"],
+  mean: ["meant"],
+  meet: ["met"],
+  pay: ["paid"],
+  ride: ["rode", "ridden"],
+  rise: ["rose", "risen"],
+  say: ["said"],
+  see: ["saw", "seen"],
+  sell: ["sold"],
+  send: ["sent"],
+  shake: ["shook", "shaken"],
+  sing: ["sang", "sung"],
+  sit: ["sat"],
+  sleep: ["slept"],
+  speak: ["spoke", "spoken"],
+  spend: ["spent"],
+  stand: ["stood"],
+  steal: ["stole", "stolen"],
+  swim: ["swam", "swum"],
+  take: ["took", "taken"],
+  teach: ["taught"],
+  tell: ["told"],
+  think: ["thought"],
+  throw: ["threw", "thrown"],
+  understand: ["understood"],
+  wake: ["woke", "woken"],
+  wear: ["wore", "worn"],
+  win: ["won"],
+  write: ["wrote", "written"],
+  child: ["children"],
+  foot: ["feet"],
+  goose: ["geese"],
+  man: ["men"],
+  mouse: ["mice"],
+  person: ["people"],
+  tooth: ["teeth"],
+  woman: ["women"],
+  good: ["better", "best"],
+  bad: ["worse", "worst"],
+};
+
+const LEMMAS = new Map<string, string>(
+  Object.entries(IRREGULAR_FORMS).flatMap(([lemma, forms]) =>
+    forms.map((form) => [form, lemma] as [string, string])
+  )
+);
+
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: "ate",
+  tional: "tion",
+  enci: "ence",
+  anci: "ance",
+  izer: "ize",
+  bli: "ble",
+  alli: "al",
+  entli: "ent",
+  eli: "e",
+  ousli: "ous",
+  ization: "ize",
+  ation: "ate",
+  ator: "ate",
+  alism: "al",
+  iveness: "ive",
+  fulness: "ful",
+  ousness: "ous",
+  aliti: "al",
+  iviti: "ive",
+  biliti: "ble",
+  logi: "log",
+};
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: "ic",
+  ative: "",
+  alize: "al",
+  iciti: "ic",
+  ical: "ic",
+  ful: "",
+  ness: "",
+};
+
+const CONSONANT = "[^aeiou]";
+const VOWEL = "[aeiouy]";
+const CONSONANTS = `${CONSONANT}[^aeiouy]*`;
+const VOWELS = `${VOWEL}[aeiou]*`;
+const MEASURE_GT_0 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}`);
+const MEASURE_EQ_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}(${VOWELS})?$`);
+const MEASURE_GT_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}${VOWELS}${CONSONANTS}`);
+const HAS_VOWEL = new RegExp(`^(${CONSONANTS})?${VOWEL}`);
+const ENDS_CVC = new RegExp(`^${CONSONANTS}${VOWEL}[^aeiouwxy]$`);
+
+/** Porter (1980) stemmer for lower-case English words. */
+export function stemEnglish(input: string): string {
+  if (input.length < 3) {
+    return input;
+  }
+
+  // A leading "y" is a consonant; upper-casing it keeps it out of VOWEL.
+  const leadingY = input[0] === "y";
+  let word = leadingY ? `Y${input.slice(1)}` : input;
+  let match: RegExpExecArray | null;
+
+  // Step 1a: plurals.
+  if ((match = /^(.+?)(ss|i)es$/.exec(word))) {
+    word = match[1] + match[2];
+  } else if ((match = /^(.+?)([^s])s$/.exec(word))) {
+    word = match[1] + match[2];
+  }
+
+  // Step 1b: past tense and progressive.
+  if ((match = /^(.+?)eed$/.exec(word))) {
+    if (MEASURE_GT_0.test(match[1])) {
+      word = word.slice(0, -1);
+    }
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(word)) && HAS_VOWEL.test(match[1])) {
+    word = match[1];
+    if (/(at|bl|iz)$/.test(word)) {
+      word += "e";
+    } else if (/([^aeiouylsz])\1$/.test(word)) {
+      word = word.slice(0, -1);
+    } else if (ENDS_CVC.test(word)) {
+      word += "e";
+    }
+  }
+
+  // Step 1c: terminal y.
+  if ((match = /^(.+?)y$/.exec(word)) && HAS_VOWEL.test(match[1])) {
+    word = `${match[1]}i`;
+  }
+
+  // Step 2 and 3: double and single derivational suffixes.
+  if (
+    (match =
+      /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(
+        word
+      )) &&
+    MEASURE_GT_0.test(match[1])
+  ) {
+    word = match[1] + STEP2_SUFFIXES[match[2]];
+  }
+
+  if (
+    (match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(word)) &&
+    MEASURE_GT_0.test(match[1])
+  ) {
+    word = match[1] + STEP3_SUFFIXES[match[2]];
+  }
+
+  // Step 4: residual suffixes.
+  if (
+    (match =
+      /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(
+        word
+      ))
+  ) {
+    if (MEASURE_GT_1.test(match[1])) {
+      word = match[1];
+    }
+  } else if ((match = /^(.+?)([st])ion$/.exec(word))) {
+    const stem = match[1] + match[2];
+    if (MEASURE_GT_1.test(stem)) {
+      word = stem;
+    }
+  }
+
+  // Step 5: tidy up final e and ll.
+  if ((match = /^(.+?)e$/.exec(word))) {
+    const stem = match[1];
+    if (MEASURE_GT_1.test(stem) || (MEASURE_EQ_1.test(stem) && !ENDS_CVC.test(stem))) {
+      word = stem;
+    }
+  }
+
+  if (/ll$/.test(word) && MEASURE_GT_1.test(word)) {
+    word = word.slice(0, -1);
+  }
+
+  return leadingY ? `y${word.slice(1)}` : word;
+}
+
+/**
+ * Reduces an English word to the key shared by its inflections: irregular
+ * forms go through the lemma table, everything else through the stemmer, so
+ * "run", "runs", "running" and "ran" all map to "run".
+ */
+export function getEnglishWordKey(word: string): string {
+  const lower = word.toLocaleLowerCase("en").replace(/['’]s$/, "");
+  return stemEnglish(LEMMAS.get(lower) ?? lower);
+}
+
+/** Only English has a stemmer; other languages fall back to exact words. */
+export function supportsWordForms(language: string): boolean {
+  const code = normalizeLanguageCode(language);
+  return code === "en" || code === "simple";
+}
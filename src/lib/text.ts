@@ -1,13 +1,27 @@
 import type { WikiArticle } from "./wiki";
+import { createKeywordMatchers, type MatchOptions } from "./matching";
+import { getParagraphSection } from "./sections";
+import { clampCutLimit, getRampScale } from "./speedRamp";
 import {
   DEFAULT_STAGE_PREFERENCES,
   clampSpeedMultiplier,
+  clampTargetRuntime,
   type StagePreferences,
 } from "./settings";
 
+export { splitKeywords } from "./matching";
+
 export interface KeywordMatch {
   keyword: string;
+  /** Text actually matched, e.g. "ran" for the keyword "~run". */
+  surface: string;
+  /** Similarity to the keyword, 1 unless the keyword is fuzzy. */
+  score: number;
   paragraphIndex: number;
+  /** Heading path of the section the paragraph belongs to; empty for the lead. */
+  section: string[];
+  /** Which of the loaded articles the match is in; 0 for a single article. */
+  articleIndex: number;
   start: number;
   end: number;
 }
@@ -15,6 +29,7 @@ export interface KeywordMatch {
 export interface TimelineItem {
   keyword: string;
   paragraphIndex: number;
+  introMs: number;
   panMs: number;
   zoomMs: number;
   highlightMs: number;
@@ -23,6 +38,7 @@ export interface TimelineItem {
 }
 
 export const DEFAULT_DURATIONS = {
+  introMs: 240,
   panMs: 400,
   zoomMs: 450,
   highlightMs: 200,
@@ -30,7 +46,31 @@ export const DEFAULT_DURATIONS = {
   transitionMs: 120,
 };
 
+export type DurationKey = keyof typeof DEFAULT_DURATIONS;
+
+/** Per-cut durations in milliseconds that replace the computed ones. */
+export type DurationOverrides = Partial<Record<DurationKey, number>>;
+
+export const DURATION_KEYS: DurationKey[] = [
+  "introMs",
+  "panMs",
+  "zoomMs",
+  "highlightMs",
+  "holdMs",
+  "transitionMs",
+];
+
+export const MAX_DURATION_OVERRIDE_MS = 10000;
+
+export function clampDurationOverride(value: number): number {
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+  return Math.min(MAX_DURATION_OVERRIDE_MS, Math.max(0, Math.round(value)));
+}
+
 const CENTERED_MODE_DURATIONS = {
+  introMs: 0,
   panMs: 0,
   zoomMs: 0,
   highlightMs: 140,
@@ -38,23 +78,18 @@ const CENTERED_MODE_DURATIONS = {
   transitionMs: 90,
 };
 
-export function splitKeywords(input: string): string[] {
-  return input
-    .split(/[,;\n]/g)
-    .map((value) => value.trim())
-    .filter(Boolean);
-}
-
 export function normalizeToken(token: string): string {
   return token.toLocaleLowerCase();
 }
 
 export function collectMatches(
   article: WikiArticle,
-  rawKeywords: string
+  rawKeywords: string,
+  options: MatchOptions = {},
+  articleIndex = 0
 ): KeywordMatch[] {
-  const keywords = splitKeywords(rawKeywords);
-  const normalizedKeywords = keywords.map(normalizeToken);
+  // Invalid patterns are reported by the search panel; here they are skipped.
+  const keywords = createKeywordMatchers(rawKeywords, article.language, options);
 
   if (!keywords.length) {
     return [];
@@ -63,46 +98,230 @@ export function collectMatches(
   const matches: KeywordMatch[] = [];
 
   article.paragraphs.forEach((paragraph, paragraphIndex) => {
-    const haystack = normalizeToken(paragraph);
+    const section = getParagraphSection(article, paragraphIndex)?.path ?? [];
 
-    normalizedKeywords.forEach((needle, keywordIndex) => {
-      let cursor = haystack.indexOf(needle);
-
-      while (cursor !== -1) {
+    keywords.forEach(({ spec, find }) => {
+      find(paragraph).forEach(({ start, end, score = 1 }) => {
         matches.push({
-          keyword: keywords[keywordIndex],
+          keyword: spec.label,
+          surface: paragraph.slice(start, end),
+          score,
           paragraphIndex,
-          start: cursor,
-          end: cursor + needle.length,
+          section,
+          articleIndex,
+          start,
+          end,
         });
-
-        cursor = haystack.indexOf(needle, cursor + needle.length);
-      }
+      });
     });
   });
 
   return matches;
 }
 
+/** The word found, followed by the keyword when they differ beyond case. */
+export function describeMatchKeyword(match: KeywordMatch): string {
+  const surface = match.surface || match.keyword;
+  return normalizeToken(surface) === normalizeToken(match.keyword)
+    ? surface
+    : `${surface} (${match.keyword})`;
+}
+
+/** Sum of every phase of one cut, in ms. */
+export function getCutDuration(item: TimelineItem): number {
+  return DURATION_KEYS.reduce((total, key) => total + item[key], 0);
+}
+
+export function getTimelineDuration(timeline: TimelineItem[]): number {
+  return timeline.reduce((total, item) => total + getCutDuration(item), 0);
+}
+
+/** Formats a runtime as "12.4 s" or "1:05.2". */
+export function formatRuntime(ms: number): string {
+  const seconds = Math.max(0, ms) / 1000;
+  if (seconds < 60) {
+    return `${seconds.toFixed(1)} s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, "0")}`;
+}
+
+// Shortest a computed phase gets when the timeline is squeezed to a target runtime.
+export const MIN_FITTED_PHASE_MS = 40;
+
+/**
+ * Builds per-cut durations from the playback mode, speed multiplier and speed
+ * ramp. `overrides` lines up with `matches`; an override is an absolute
+ * duration, so it is kept as-is when the multiplier or ramp changes, and only
+ * the computed phases stretch or shrink to respect the per-cut limits.
+ * Disabled phases stay 0.
+ *
+ * With a target runtime, the computed phases are scaled by one shared factor
+ * until the total matches it; when the cuts can't shrink or grow far enough
+ * the closest reachable timeline is returned (see `describeTimelineFit`).
+ */
 export function buildTimeline(
   matches: KeywordMatch[],
-  preferences: StagePreferences = DEFAULT_STAGE_PREFERENCES
+  preferences: StagePreferences = DEFAULT_STAGE_PREFERENCES,
+  overrides: Array<DurationOverrides | undefined> = []
 ): TimelineItem[] {
   const toggles = preferences.phases;
   const multiplier = clampSpeedMultiplier(preferences.speedMultiplier ?? 1);
+  const ramp = preferences.speedRamp;
+  const minCutMs = clampCutLimit(ramp?.minCutMs ?? 0);
+  const maxCutMs = clampCutLimit(ramp?.maxCutMs ?? 0);
+  const targetRuntimeMs = clampTargetRuntime(preferences.targetRuntimeMs ?? 0);
   const baseDurations =
     preferences.playbackMode === "centered" ? CENTERED_MODE_DURATIONS : DEFAULT_DURATIONS;
+  const enabledPhases: Record<DurationKey, boolean> = {
+    introMs: toggles.intro,
+    panMs: toggles.pan,
+    zoomMs: toggles.zoom,
+    highlightMs: toggles.highlight,
+    holdMs: toggles.hold,
+    transitionMs: toggles.transition,
+  };
+
+  const buildItems = (fitScale: number, phaseFloorMs: number): TimelineItem[] =>
+    matches.map((match, index) => {
+      const override = overrides[index] ?? {};
+      const scale = fitScale * multiplier * getRampScale(ramp, index, matches.length);
+      const computedKeys = DURATION_KEYS.filter(
+        (key) => enabledPhases[key] && override[key] === undefined
+      );
+      const durations = {} as Record<DurationKey, number>;
+      let fixedMs = 0;
+      let computedMs = 0;
+
+      DURATION_KEYS.forEach((key) => {
+        if (!enabledPhases[key]) {
+          durations[key] = 0;
+        } else if (override[key] !== undefined) {
+          durations[key] = clampDurationOverride(override[key]);
+          fixedMs += durations[key];
+        } else {
+          const base = baseDurations[key];
+          durations[key] =
+            base > 0 ? Math.max(phaseFloorMs, Math.round(base * scale)) : 0;
+          computedMs += durations[key];
+        }
+      });
 
-  const resolveDuration = (enabled: boolean, base: number) =>
-    enabled ? Math.max(0, Math.round(base * multiplier)) : 0;
-
-  return matches.map((match) => ({
-    keyword: match.keyword,
-    paragraphIndex: match.paragraphIndex,
-    panMs: resolveDuration(toggles.pan, baseDurations.panMs),
-    zoomMs: resolveDuration(toggles.zoom, baseDurations.zoomMs),
-    highlightMs: resolveDuration(toggles.highlight, baseDurations.highlightMs),
-    holdMs: resolveDuration(toggles.hold, baseDurations.holdMs),
-    transitionMs: resolveDuration(toggles.transition, baseDurations.transitionMs),
-  }));
+      const totalMs = fixedMs + computedMs;
+      const limitMs =
+        minCutMs > 0 && totalMs < minCutMs
+          ? minCutMs
+          : maxCutMs > 0 && totalMs > maxCutMs
+            ? maxCutMs
+            : totalMs;
+
+      if (limitMs !== totalMs && computedMs > 0) {
+        const stretch = Math.max(0, limitMs - fixedMs) / computedMs;
+        computedKeys.forEach((key) => {
+          durations[key] = Math.round(durations[key] * stretch);
+        });
+
+        // Give the rounding remainder to the longest phase so the limit is exact.
+        const longestKey = computedKeys.reduce((longest, key) =>
+          durations[key] > durations[longest] ? key : longest
+        );
+        const remainder =
+          Math.max(fixedMs, limitMs) -
+          DURATION_KEYS.reduce((total, key) => total + durations[key], 0);
+        durations[longestKey] = Math.max(0, durations[longestKey] + remainder);
+      }
+
+      return {
+        keyword: match.keyword,
+        paragraphIndex: match.paragraphIndex,
+        ...durations,
+      };
+    });
+
+  if (!targetRuntimeMs || !matches.length) {
+    return buildItems(1, 0);
+  }
+
+  // The runtime only grows with the shared factor, so bisect for the target.
+  const runtimeAt = (fitScale: number) =>
+    getTimelineDuration(buildItems(fitScale, MIN_FITTED_PHASE_MS));
+  let low = 0;
+  let high = 1;
+  while (runtimeAt(high) < targetRuntimeMs && high < 1024) {
+    low = high;
+    high *= 2;
+  }
+  for (let step = 0; step < 40; step += 1) {
+    const middle = (low + high) / 2;
+    if (runtimeAt(middle) < targetRuntimeMs) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  const lowRuntime = runtimeAt(low);
+  const highRuntime = runtimeAt(high);
+  const fitted = buildItems(
+    Math.abs(highRuntime - targetRuntimeMs) <= Math.abs(targetRuntimeMs - lowRuntime)
+      ? high
+      : low,
+    MIN_FITTED_PHASE_MS
+  );
+
+  // Rounding leaves a few ms over or under; settle them on the longest phase.
+  const remainder = targetRuntimeMs - getTimelineDuration(fitted);
+  if (remainder !== 0 && Math.abs(remainder) <= fitted.length * DURATION_KEYS.length) {
+    let best: { index: number; key: DurationKey } | null = null;
+    for (let index = 0; index < fitted.length; index += 1) {
+      for (const key of DURATION_KEYS) {
+        const isComputed = enabledPhases[key] && overrides[index]?.[key] === undefined;
+        if (isComputed && fitted[index][key] > (best ? fitted[best.index][best.key] : 0)) {
+          best = { index, key };
+        }
+      }
+    }
+    if (best && fitted[best.index][best.key] + remainder >= MIN_FITTED_PHASE_MS) {
+      fitted[best.index][best.key] += remainder;
+    }
+  }
+
+  return fitted;
+}
+
+/** Total time spent in each phase across the timeline, in ms. */
+export function getPhaseTotals(timeline: TimelineItem[]): Record<DurationKey, number> {
+  const totals = {} as Record<DurationKey, number>;
+  DURATION_KEYS.forEach((key) => {
+    totals[key] = timeline.reduce((total, item) => total + item[key], 0);
+  });
+  return totals;
+}
+
+/**
+ * Explains why a timeline misses its target runtime, or null when it fits
+ * (within a frame) or no target is set.
+ */
+export function describeTimelineFit(
+  timeline: TimelineItem[],
+  targetRuntimeMs: number
+): string | null {
+  const target = clampTargetRuntime(targetRuntimeMs);
+  if (!target || !timeline.length) {
+    return null;
+  }
+
+  const runtime = getTimelineDuration(timeline);
+  const cutLabel = `${timeline.length} cut${timeline.length > 1 ? "s" : ""}`;
+  if (runtime - target > 40) {
+    return `${cutLabel} need at least ${formatRuntime(runtime)}, more than the ${formatRuntime(
+      target
+    )} target. Skip some cuts, lower the max per keyword or shorten the duration overrides.`;
+  }
+  if (target - runtime > 40) {
+    return `${cutLabel} only stretch to ${formatRuntime(runtime)} of the ${formatRuntime(
+      target
+    )} target. Enable more phases, add cuts or raise the max per cut.`;
+  }
+  return null;
 }
@@ -0,0 +1,259 @@
+import type { EncodedSample } from "./offlineRender";
+
+// Backed by a plain ArrayBuffer, as Blob parts must be.
+type Bytes = Uint8Array<ArrayBuffer>;
+
+export interface WebmVideoTrack {
+  /** Matroska codec ID, e.g. "V_VP9". */
+  codecId: string;
+  width: number;
+  height: number;
+  codecPrivate?: Bytes | null;
+  samples: EncodedSample[];
+}
+
+export interface WebmAudioTrack {
+  /** Only Opus is written; it is what every WebM player decodes. */
+  sampleRate: number;
+  channels: number;
+  /** OpusHead from the encoder; built from the fields above when missing. */
+  codecPrivate?: Bytes | null;
+  samples: EncodedSample[];
+}
+
+export interface WebmFile {
+  durationMs: number;
+  video: WebmVideoTrack;
+  audio?: WebmAudioTrack | null;
+}
+
+// An element is its ID, its size and its body; bodies stay as separate parts
+// so large frames are never copied into one big buffer before the Blob.
+interface EbmlElement {
+  size: number;
+  parts: Bytes[];
+}
+
+const OPUS_PRE_SKIP = 312;
+// Keeps block timecodes well inside the signed 16-bit offset from the cluster.
+const MAX_CLUSTER_MS = 30000;
+
+const encodeId = (id: number): Bytes => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value % 256);
+  }
+  return Uint8Array.from(bytes);
+};
+
+const encodeSize = (size: number): Bytes => {
+  let length = 1;
+  while (length < 8 && size >= 2 ** (7 * length) - 1) {
+    length += 1;
+  }
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let index = length - 1; index >= 0; index -= 1) {
+    bytes[index] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+};
+
+const encodeUint = (value: number): Bytes => {
+  const bytes: number[] = [];
+  let rest = Math.max(0, Math.round(value));
+  do {
+    bytes.unshift(rest % 256);
+    rest = Math.floor(rest / 256);
+  } while (rest > 0);
+  return Uint8Array.from(bytes);
+};
+
+const encodeFloat = (value: number): Bytes => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+};
+
+const element = (id: number, body: Array<Bytes | EbmlElement>): EbmlElement => {
+  const parts: Bytes[] = [];
+  let size = 0;
+  body.forEach((child) => {
+    if (child instanceof Uint8Array) {
+      parts.push(child);
+      size += child.byteLength;
+    } else {
+      // A loop rather than a spread: a segment can hold a very long part list.
+      child.parts.forEach((part) => parts.push(part));
+      size += child.size;
+    }
+  });
+
+  const idBytes = encodeId(id);
+  const sizeBytes = encodeSize(size);
+  return {
+    size: size + idBytes.byteLength + sizeBytes.byteLength,
+    parts: [idBytes, sizeBytes].concat(parts),
+  };
+};
+
+const uintElement = (id: number, value: number) => element(id, [encodeUint(value)]);
+// Always eight bytes, so a position can be written before the layout it points
+// into is final without changing any size.
+const fixedUintElement = (id: number, value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(Math.max(0, Math.round(value))));
+  return element(id, [bytes]);
+};
+const floatElement = (id: number, value: number) => element(id, [encodeFloat(value)]);
+const stringElement = (id: number, value: string) =>
+  element(id, [new TextEncoder().encode(value)]);
+
+/** OpusHead as RFC 7845 defines it, for encoders that do not hand one out. */
+export function createOpusHead(channels: number, sampleRate: number): Bytes {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode("OpusHead"));
+  view.setUint8(8, 1);
+  view.setUint8(9, channels);
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, sampleRate, true);
+  return head;
+}
+
+const simpleBlock = (trackNumber: number, relativeMs: number, sample: EncodedSample) => {
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  view.setUint8(0, 0x80 | trackNumber);
+  view.setInt16(1, relativeMs);
+  view.setUint8(3, sample.isKey ? 0x80 : 0);
+  return element(0xa3, [header, sample.data]);
+};
+
+/**
+ * Writes a complete WebM file from already encoded frames. All sizes are
+ * known up front, so the cues that make it seekable are written in the same
+ * pass, after the clusters, with a seek head pointing at them.
+ */
+export function createWebm({ durationMs, video, audio = null }: WebmFile): Blob {
+  const videoEntry = element(0xae, [
+    uintElement(0xd7, 1),
+    uintElement(0x73c5, 1),
+    uintElement(0x83, 1),
+    uintElement(0x9c, 0),
+    stringElement(0x86, video.codecId),
+    ...(video.codecPrivate ? [element(0x63a2, [video.codecPrivate])] : []),
+    element(0xe0, [uintElement(0xb0, video.width), uintElement(0xba, video.height)]),
+  ]);
+
+  const audioEntry = audio
+    ? element(0xae, [
+        uintElement(0xd7, 2),
+        uintElement(0x73c5, 2),
+        uintElement(0x83, 2),
+        uintElement(0x9c, 0),
+        stringElement(0x86, "A_OPUS"),
+        element(0x63a2, [
+          audio.codecPrivate ?? createOpusHead(audio.channels, audio.sampleRate),
+        ]),
+        uintElement(0x56aa, Math.round((OPUS_PRE_SKIP / 48000) * 1e9)),
+        uintElement(0x56bb, 80_000_000),
+        element(0xe1, [
+          floatElement(0xb5, audio.sampleRate),
+          uintElement(0x9f, audio.channels),
+        ]),
+      ])
+    : null;
+
+  const blocks = [
+    ...video.samples.map((sample) => ({ track: 1, sample })),
+    ...(audio?.samples ?? []).map((sample) => ({ track: 2, sample })),
+  ].sort((a, b) => a.sample.timestampUs - b.sample.timestampUs || a.track - b.track);
+
+  // A new cluster starts on each video keyframe so players can seek to it.
+  const clusters: Array<{ element: EbmlElement; startMs: number; isKey: boolean }> = [];
+  let clusterStartMs = 0;
+  let clusterIsKey = false;
+  let clusterBody: EbmlElement[] = [];
+  const closeCluster = () => {
+    if (clusterBody.length) {
+      clusters.push({
+        element: element(0x1f43b675, [uintElement(0xe7, clusterStartMs), ...clusterBody]),
+        startMs: clusterStartMs,
+        isKey: clusterIsKey,
+      });
+    }
+    clusterBody = [];
+  };
+
+  blocks.forEach(({ track, sample }) => {
+    const timeMs = Math.round(sample.timestampUs / 1000);
+    const isVideoKey = track === 1 && sample.isKey;
+    if (!clusterBody.length || isVideoKey || timeMs - clusterStartMs >= MAX_CLUSTER_MS) {
+      closeCluster();
+      clusterStartMs = timeMs;
+      clusterIsKey = isVideoKey;
+    }
+    clusterBody.push(simpleBlock(track, timeMs - clusterStartMs, sample));
+  });
+  closeCluster();
+
+  const header = element(0x1a45dfa3, [
+    uintElement(0x4286, 1),
+    uintElement(0x42f7, 1),
+    uintElement(0x42f2, 4),
+    uintElement(0x42f3, 8),
+    stringElement(0x4282, "webm"),
+    uintElement(0x4287, 4),
+    uintElement(0x4285, 2),
+  ]);
+
+  const info = element(0x1549a966, [
+    uintElement(0x2ad7b1, 1_000_000),
+    stringElement(0x4d80, "Text Match CUT"),
+    stringElement(0x5741, "Text Match CUT"),
+    floatElement(0x4489, durationMs),
+  ]);
+  const tracks = element(0x1654ae6b, audioEntry ? [videoEntry, audioEntry] : [videoEntry]);
+
+  // Positions are relative to the start of the segment body. The seek head
+  // uses fixed-width positions, so its size is known before they are.
+  const seekEntry = (id: number, position: number) =>
+    element(0x4dbb, [element(0x53ab, [encodeId(id)]), fixedUintElement(0x53ac, position)]);
+  const hasCues = clusters.some((cluster) => cluster.isKey);
+  const createSeekHead = (infoPosition: number, tracksPosition: number, cuesPosition: number) =>
+    element(0x114d9b74, [
+      seekEntry(0x1549a966, infoPosition),
+      seekEntry(0x1654ae6b, tracksPosition),
+      ...(hasCues ? [seekEntry(0x1c53bb6b, cuesPosition)] : []),
+    ]);
+  const seekHeadSize = createSeekHead(0, 0, 0).size;
+
+  const cuePoints: EbmlElement[] = [];
+  let position = seekHeadSize + info.size + tracks.size;
+  clusters.forEach((cluster) => {
+    if (cluster.isKey) {
+      cuePoints.push(
+        element(0xbb, [
+          uintElement(0xb3, cluster.startMs),
+          element(0xb7, [uintElement(0xf7, 1), uintElement(0xf1, position)]),
+        ])
+      );
+    }
+    position += cluster.element.size;
+  });
+
+  const seekHead = createSeekHead(seekHeadSize, seekHeadSize + info.size, position);
+
+  const segment = element(0x18538067, [
+    seekHead,
+    info,
+    tracks,
+    ...clusters.map((cluster) => cluster.element),
+    ...(hasCues ? [element(0x1c53bb6b, cuePoints)] : []),
+  ]);
+
+  return new Blob([...header.parts, ...segment.parts], { type: "video/webm" });
+}
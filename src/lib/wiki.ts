@@ -1,142 +1,521 @@
-export type SupportedLanguage = "en" | "th";
+import {
+  ARTICLE_SOURCE_LABELS,
+  createArticle,
+  type ArticleSource,
+  type ArticleSourceId,
+  type ArticleText,
+} from "./sources";
+import { normalizeLanguageCode } from "./languages";
+import { parseSections, type ArticleSection } from "./sections";
+import { findCachedArticle, readCachedArticle, writeCachedArticle } from "./articleCache";
+import { wikiHtmlToPlainText } from "./wikiHtml";
+
+/** Any Wikipedia language edition code, e.g. "en", "th", "ja" or "zh-yue". */
+export type SupportedLanguage = string;
 
 export interface WikiSearchResult {
   title: string;
   language: SupportedLanguage;
 }
 
+export interface WikiSearchCandidate extends WikiSearchResult {
+  description: string;
+  isDisambiguation: boolean;
+}
+
+export interface WikiTextSearchResult extends WikiSearchResult {
+  /** Plain-text excerpt around the best hits. */
+  snippet: string;
+  wordCount: number;
+}
+
+export interface WikiTextSearch {
+  /** Articles the search engine found in total, beyond the returned page. */
+  totalHits: number;
+  results: WikiTextSearchResult[];
+}
+
+export interface FetchArticleOptions {
+  /** Read from the local article cache before going to the network (default true). */
+  useCache?: boolean;
+  /** Load this exact revision (oldid) instead of the latest one. */
+  revisionId?: number | null;
+}
+
 export interface WikiArticle extends WikiSearchResult {
+  source: ArticleSourceId;
+  revisionId: number | null;
+  /** ISO timestamp of `revisionId`. */
+  revisionTimestamp: string | null;
+  sections: ArticleSection[];
+  /** Paragraphs of the included sections, in order and capped; used for matching. */
   paragraphs: string[];
+  /** Index into `sections` for each entry of `paragraphs`. */
+  paragraphSections: number[];
   rawText: string;
 }
 
 const ACTION_API_ENDPOINT = "https://$LANG.wikipedia.org/w/api.php";
 const SUMMARY_ENDPOINT = "https://$LANG.wikipedia.org/api/rest_v1/page/summary/";
+const WIKI_PROXY_ENDPOINT = "/api/wiki";
+const DEFAULT_CANDIDATE_LIMIT = 8;
+
+// Route requests through the /api/wiki proxy (User-Agent, retries, caching)
+// instead of calling Wikipedia from the browser with origin=*.
+const useWikiProxy = process.env.NEXT_PUBLIC_WIKI_PROXY === "1";
+
+function resolveLanguageCode(language: SupportedLanguage): string {
+  const code = normalizeLanguageCode(language);
+
+  if (!code) {
+    throw new Error(`"${language}" is not a valid Wikipedia language code.`);
+  }
+
+  return code;
+}
+
+function createActionUrl(language: SupportedLanguage, params: Record<string, string>): string {
+  const code = resolveLanguageCode(language);
+
+  if (useWikiProxy) {
+    const searchParams = new URLSearchParams({ lang: code, kind: "action", ...params });
+    return `${WIKI_PROXY_ENDPOINT}?${searchParams.toString()}`;
+  }
 
-function createEndpoint(template: string, language: SupportedLanguage): string {
-  return template.replace("$LANG", language);
+  const searchParams = new URLSearchParams({ ...params, origin: "*" });
+  return `${ACTION_API_ENDPOINT.replace("$LANG", code)}?${searchParams.toString()}`;
+}
+
+function createSummaryUrl(language: SupportedLanguage, title: string): string {
+  const code = resolveLanguageCode(language);
+
+  if (useWikiProxy) {
+    const searchParams = new URLSearchParams({ lang: code, kind: "summary", title });
+    return `${WIKI_PROXY_ENDPOINT}?${searchParams.toString()}`;
+  }
+
+  return `${SUMMARY_ENDPOINT.replace("$LANG", code)}${encodeURIComponent(title)}`;
 }
 
 async function fetchJson<T>(url: string): Promise<T> {
   const response = await fetch(url);
 
   if (!response.ok) {
-    throw new Error(`Wikipedia request failed (${response.status})`);
+    const detail = await response
+      .json()
+      .then((body: { error?: { info?: string } }) => body.error?.info ?? null)
+      .catch(() => null);
+    throw new Error(`Wikipedia request failed (${response.status})${detail ? `: ${detail}` : ""}`);
   }
 
   return response.json() as Promise<T>;
 }
 
+interface PageInfoQueryResponse {
+  query?: {
+    redirects?: Array<{ from: string; to: string }>;
+    normalized?: Array<{ from: string; to: string }>;
+    pages?: Array<{
+      title: string;
+      missing?: boolean;
+      description?: string;
+      pageprops?: { disambiguation?: string };
+    }>;
+  };
+}
+
+interface TextSearchQueryResponse {
+  query?: {
+    searchinfo?: { totalhits?: number };
+    search?: Array<{ title: string; snippet?: string; wordcount?: number }>;
+  };
+}
+
+interface LinksQueryResponse {
+  query?: {
+    pages?: Array<{
+      missing?: boolean;
+      links?: Array<{ ns: number; title: string }>;
+    }>;
+  };
+}
+
+export async function searchArticleCandidates(
+  query: string,
+  language: SupportedLanguage,
+  limit = DEFAULT_CANDIDATE_LIMIT
+): Promise<WikiSearchCandidate[]> {
+  const trimmed = query.trim();
+
+  if (!trimmed) {
+    return [];
+  }
+
+  const payload = await fetchJson<[string, string[], string[], string[]]>(
+    createActionUrl(language, {
+      action: "opensearch",
+      search: trimmed,
+      limit: String(limit),
+      redirects: "resolve",
+    })
+  );
+  const [, titles, descriptions] = payload;
+
+  if (!titles.length) {
+    return [];
+  }
+
+  const infoParams = {
+    action: "query",
+    prop: "description|pageprops",
+    ppprop: "disambiguation",
+    titles: titles.join("|"),
+    format: "json",
+    formatversion: "2",
+    redirects: "1",
+  };
+  const info = await fetchJson<PageInfoQueryResponse>(
+    createActionUrl(language, infoParams)
+  );
+
+  const aliases = new Map<string, string>();
+  [...(info.query?.normalized ?? []), ...(info.query?.redirects ?? [])].forEach(
+    ({ from, to }) => aliases.set(from, to)
+  );
+  const pages = new Map((info.query?.pages ?? []).map((page) => [page.title, page]));
+
+  return titles.map((title, index) => {
+    let resolved = title;
+    while (aliases.has(resolved) && aliases.get(resolved) !== resolved) {
+      resolved = aliases.get(resolved) as string;
+    }
+    const page = pages.get(resolved);
+
+    return {
+      title,
+      language,
+      description: page?.description ?? descriptions[index] ?? "",
+      isDisambiguation: page?.pageprops?.disambiguation !== undefined,
+    };
+  });
+}
+
 export async function searchArticleTitle(
   query: string,
   language: SupportedLanguage
 ): Promise<string | null> {
+  const candidates = await searchArticleCandidates(query, language);
+  const preferred =
+    candidates.find((candidate) => !candidate.isDisambiguation) ?? candidates[0];
+
+  return preferred ? preferred.title : null;
+}
+
+const decodeSnippet = (html: string) =>
+  html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+/**
+ * Full-text search (list=search): articles whose text contains `query`, best
+ * matches first, unlike `searchArticleCandidates` which only matches titles.
+ */
+export async function searchArticlesByText(
+  query: string,
+  language: SupportedLanguage,
+  limit = 20
+): Promise<WikiTextSearch> {
   const trimmed = query.trim();
 
   if (!trimmed) {
-    return null;
+    return { totalHits: 0, results: [] };
   }
 
-  const endpoint = createEndpoint(ACTION_API_ENDPOINT, language);
-  const url = `${endpoint}?action=opensearch&search=${encodeURIComponent(
-    trimmed
-  )}&limit=1&origin=*`;
+  const payload = await fetchJson<TextSearchQueryResponse>(
+    createActionUrl(language, {
+      action: "query",
+      list: "search",
+      srsearch: trimmed,
+      srnamespace: "0",
+      srlimit: String(limit),
+      srprop: "snippet|wordcount",
+      format: "json",
+      formatversion: "2",
+    })
+  );
+
+  return {
+    totalHits: payload.query?.searchinfo?.totalhits ?? 0,
+    results: (payload.query?.search ?? []).map((entry) => ({
+      title: entry.title,
+      language,
+      snippet: decodeSnippet(entry.snippet ?? ""),
+      wordCount: entry.wordcount ?? 0,
+    })),
+  };
+}
+
+export async function fetchDisambiguationLinks(
+  title: string,
+  language: SupportedLanguage
+): Promise<string[]> {
+  const searchParams = {
+    action: "query",
+    prop: "links",
+    titles: title,
+    plnamespace: "0",
+    pllimit: "max",
+    format: "json",
+    formatversion: "2",
+    redirects: "1",
+  };
+  const payload = await fetchJson<LinksQueryResponse>(
+    createActionUrl(language, searchParams)
+  );
+  const page = payload.query?.pages?.[0];
 
-  const payload = await fetchJson<[string, string[], string[], string[]]>(url);
-  const [, titles] = payload;
+  if (!page || page.missing) {
+    return [];
+  }
 
-  return titles.length > 0 ? titles[0] : null;
+  return (page.links ?? [])
+    .map((link) => link.title)
+    .filter((linkTitle) => !/\(disambiguation\)$/i.test(linkTitle));
 }
 
-interface ExtractQueryResponse {
+interface RevisionQueryResponse {
   query?: {
+    badrevids?: Record<string, unknown>;
     pages?: Array<{
+      title: string;
       missing?: boolean;
-      extract?: string;
+      revisions?: Array<{ revid: number; timestamp: string }>;
     }>;
   };
 }
 
+interface ParseResponse {
+  parse?: { title: string; revid: number; text: string };
+  error?: { info?: string };
+}
+
+export interface WikiRevision {
+  title: string;
+  revisionId: number;
+  timestamp: string;
+}
+
 async function fetchSummaryExtract(
   title: string,
   language: SupportedLanguage
-): Promise<string | null> {
-  const endpoint = createEndpoint(SUMMARY_ENDPOINT, language);
-  const response = await fetch(`${endpoint}${encodeURIComponent(title)}`);
+): Promise<ArticleText | null> {
+  const response = await fetch(createSummaryUrl(language, title));
 
   if (!response.ok) {
     return null;
   }
 
-  const payload = (await response.json()) as { extract?: string };
-  return payload.extract ?? null;
+  const payload = (await response.json()) as {
+    extract?: string;
+    revision?: string;
+    timestamp?: string;
+  };
+
+  if (!payload.extract) {
+    return null;
+  }
+
+  const revisionId = Number(payload.revision);
+  return {
+    rawText: payload.extract,
+    revisionId: Number.isFinite(revisionId) ? revisionId : null,
+    revisionTimestamp: payload.timestamp ?? null,
+  };
 }
 
+export async function fetchRevisionInfo(
+  revisionId: number,
+  language: SupportedLanguage
+): Promise<WikiRevision | null> {
+  const searchParams = {
+    action: "query",
+    prop: "revisions",
+    revids: String(revisionId),
+    rvprop: "ids|timestamp",
+    format: "json",
+    formatversion: "2",
+  };
+  const payload = await fetchJson<RevisionQueryResponse>(
+    createActionUrl(language, searchParams)
+  );
+  const page = payload.query?.pages?.[0];
+  const revision = page?.revisions?.[0];
+
+  if (payload.query?.badrevids || !page || !revision) {
+    return null;
+  }
+
+  return { title: page.title, revisionId: revision.revid, timestamp: revision.timestamp };
+}
+
+async function fetchRevisionText(
+  revisionId: number,
+  language: SupportedLanguage,
+  knownRevision: WikiRevision | null = null
+): Promise<ArticleText> {
+  const searchParams = {
+    action: "parse",
+    oldid: String(revisionId),
+    prop: "text",
+    disableeditsection: "1",
+    format: "json",
+    formatversion: "2",
+  };
+  const [revision, payload] = await Promise.all([
+    knownRevision ?? fetchRevisionInfo(revisionId, language),
+    fetchJson<ParseResponse>(createActionUrl(language, searchParams)),
+  ]);
+
+  if (!revision || !payload.parse) {
+    throw new Error(
+      payload.error?.info ?? `Revision ${revisionId} was not found (${language.toUpperCase()}).`
+    );
+  }
+
+  return {
+    rawText: wikiHtmlToPlainText(payload.parse.text),
+    revisionId: revision.revisionId,
+    revisionTimestamp: revision.timestamp,
+  };
+}
+
+// Fresh and pinned loads both render the revision through the parser, so a
+// project saved from a fresh load reloads with the very same paragraphs.
 async function fetchPlainArticle(
   title: string,
-  language: SupportedLanguage
-): Promise<string> {
-  const endpoint = createEndpoint(ACTION_API_ENDPOINT, language);
-  const searchParams = new URLSearchParams({
+  language: SupportedLanguage,
+  revisionId: number | null = null
+): Promise<ArticleText> {
+  if (revisionId !== null) {
+    return fetchRevisionText(revisionId, language);
+  }
+
+  const searchParams = {
     action: "query",
-    prop: "extracts",
-    exlimit: "1",
+    prop: "revisions",
     titles: title,
-    explaintext: "1",
+    rvprop: "ids|timestamp",
     format: "json",
     formatversion: "2",
     redirects: "1",
-    origin: "*",
-  });
-  const payload = await fetchJson<ExtractQueryResponse>(
-    `${endpoint}?${searchParams.toString()}`
+  };
+  const payload = await fetchJson<RevisionQueryResponse>(
+    createActionUrl(language, searchParams)
   );
 
-  const extract =
-    payload.query?.pages && payload.query.pages[0]
-      ? payload.query.pages[0].missing
-        ? null
-        : payload.query.pages[0].extract ?? null
-      : null;
+  const page = payload.query?.pages?.[0];
+  const latest = page && !page.missing ? page.revisions?.[0] : undefined;
 
-  if (extract && extract.trim().length > 0) {
-    return extract;
+  if (page && latest) {
+    const text = await fetchRevisionText(latest.revid, language, {
+      title: page.title,
+      revisionId: latest.revid,
+      timestamp: latest.timestamp,
+    });
+    if (text.rawText.trim().length > 0) {
+      return text;
+    }
   }
 
   const fallback = await fetchSummaryExtract(title, language);
 
-  if (fallback && fallback.trim().length > 0) {
+  if (fallback && fallback.rawText.trim().length > 0) {
     return fallback;
   }
 
   throw new Error("Unable to load article text.");
 }
 
-function extractParagraphs(rawText: string, limit = 30): string[] {
-  return rawText
-    .split(/\n{2,}/g)
-    .map((paragraph) => paragraph.replace(/\n+/g, " ").trim())
-    .filter(Boolean)
-    .slice(0, limit);
+export const wikipediaSource: ArticleSource = {
+  id: "wikipedia",
+  label: ARTICLE_SOURCE_LABELS.wikipedia,
+  search: searchArticleTitle,
+  fetch: fetchPlainArticle,
+  normalize: parseSections,
+};
+
+export async function fetchArticleByTitle(
+  title: string,
+  language: SupportedLanguage,
+  { useCache = true, revisionId = null }: FetchArticleOptions = {}
+): Promise<WikiArticle> {
+  if (useCache) {
+    const cached = await readCachedArticle(wikipediaSource.id, language, title, revisionId);
+    if (cached) {
+      return cached.article;
+    }
+  }
+
+  const text = await fetchPlainArticle(title, language, revisionId);
+  const article = createArticle(wikipediaSource, title, language, text);
+  await writeCachedArticle(article, revisionId !== null);
+  return article;
+}
+
+export async function fetchArticleByRevision(
+  revisionId: number,
+  language: SupportedLanguage,
+  options: Omit<FetchArticleOptions, "revisionId"> = {}
+): Promise<WikiArticle> {
+  const revision = await fetchRevisionInfo(revisionId, language);
+
+  if (!revision) {
+    throw new Error(`Revision ${revisionId} was not found (${language.toUpperCase()}).`);
+  }
+
+  return fetchArticleByTitle(revision.title, language, { ...options, revisionId });
 }
 
 export async function fetchArticleByTopic(
   query: string,
-  language: SupportedLanguage
+  language: SupportedLanguage,
+  options: FetchArticleOptions = {}
 ): Promise<WikiArticle | null> {
-  const title = await searchArticleTitle(query, language);
+  if (options.useCache ?? true) {
+    const cached = await readCachedArticle(
+      wikipediaSource.id,
+      language,
+      query,
+      options.revisionId ?? null
+    );
+    if (cached) {
+      return cached.article;
+    }
+  }
+
+  let title: string | null;
+  try {
+    title = await searchArticleTitle(query, language);
+  } catch (error) {
+    // Offline or rate limited: the query rarely matches the stored title
+    // exactly, so look for the article it would most likely have found.
+    const cached =
+      (options.useCache ?? true) && (options.revisionId ?? null) === null
+        ? await findCachedArticle(wikipediaSource.id, language, query)
+        : null;
+    if (!cached) {
+      throw error;
+    }
+    return cached.article;
+  }
 
   if (!title) {
     return null;
   }
 
-  const rawText = await fetchPlainArticle(title, language);
-  const paragraphs = extractParagraphs(rawText);
-
-  return {
-    title,
-    language,
-    rawText,
-    paragraphs,
-  };
+  return fetchArticleByTitle(title, language, options);
 }
@@ -0,0 +1,67 @@
+const SKIPPED_SELECTORS = [
+  "style",
+  "script",
+  "table",
+  "figure",
+  "sup.reference",
+  "sup.noprint",
+  ".mw-editsection",
+  ".mw-references-wrap",
+  ".reflist",
+  ".references",
+  ".navbox",
+  ".infobox",
+  ".hatnote",
+  ".thumb",
+  ".metadata",
+  ".mw-empty-elt",
+  ".noprint",
+];
+
+const HEADING_TAGS = new Set(["H2", "H3", "H4", "H5", "H6"]);
+const BLOCK_TAGS = new Set(["P", "LI", "DD", "BLOCKQUOTE"]);
+
+function cleanText(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Converts `action=parse` HTML into plain text with blank-line separated
+ * paragraphs and `== Heading ==` markers, the shape the section parser reads.
+ * Every Wikipedia load, current or pinned, goes through it.
+ */
+export function wikiHtmlToPlainText(html: string): string {
+  if (typeof DOMParser === "undefined") {
+    throw new Error("Loading a Wikipedia article requires a browser environment.");
+  }
+
+  const document = new DOMParser().parseFromString(html, "text/html");
+  const root = document.querySelector(".mw-parser-output") ?? document.body;
+  root.querySelectorAll(SKIPPED_SELECTORS.join(",")).forEach((node) => node.remove());
+
+  const blocks: string[] = [];
+
+  const visit = (element: Element) => {
+    if (HEADING_TAGS.has(element.tagName)) {
+      const marker = "=".repeat(Number(element.tagName.slice(1)));
+      const heading = cleanText(element.textContent ?? "");
+      if (heading) {
+        blocks.push(`\n${marker} ${heading} ${marker}`);
+      }
+      return;
+    }
+
+    if (BLOCK_TAGS.has(element.tagName)) {
+      const text = cleanText(element.textContent ?? "");
+      if (text) {
+        blocks.push(text);
+      }
+      return;
+    }
+
+    Array.from(element.children).forEach(visit);
+  };
+
+  Array.from(root.children).forEach(visit);
+  return blocks.join("\n\n");
+}
@@ -0,0 +1,184 @@
+export interface WikiProxyResult {
+  status: number;
+  body: string;
+  contentType: string;
+}
+
+export interface WikiProxyOptions {
+  /** Upstream origin with a `$LANG` placeholder, e.g. "https://$LANG.wikipedia.org". */
+  originTemplate?: string;
+  userAgent?: string;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxConcurrent?: number;
+  cacheTtlMs?: number;
+  cacheSize?: number;
+  fetchImpl?: typeof fetch;
+  sleep?(ms: number): Promise<void>;
+}
+
+export interface WikiProxy {
+  request(url: string): Promise<WikiProxyResult>;
+  resolveUrl(language: string, path: string): string;
+  clearCache(): void;
+}
+
+interface CacheEntry {
+  expiresAt: number;
+  result: WikiProxyResult;
+}
+
+export const DEFAULT_ORIGIN_TEMPLATE = "https://$LANG.wikipedia.org";
+export const DEFAULT_USER_AGENT =
+  "TextMatchCut/0.1 (https://github.com/KCCHDEV/TRS-next; match cut generator)";
+
+const RETRYABLE_STATUS = (status: number) => status === 429 || status >= 500;
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Builds the upstream side of the Wikipedia proxy: a small concurrency limit,
+ * exponential backoff on 429/5xx, coalescing of identical in-flight requests
+ * and a short-lived response cache. Everything is injectable so it can run
+ * against a local stub server.
+ */
+export function createWikiProxy({
+  originTemplate = DEFAULT_ORIGIN_TEMPLATE,
+  userAgent = DEFAULT_USER_AGENT,
+  maxRetries = 3,
+  baseDelayMs = 400,
+  maxDelayMs = 8000,
+  maxConcurrent = 4,
+  cacheTtlMs = 5 * 60 * 1000,
+  cacheSize = 200,
+  fetchImpl = fetch,
+  sleep = defaultSleep,
+}: WikiProxyOptions = {}): WikiProxy {
+  const cache = new Map<string, CacheEntry>();
+  const inflight = new Map<string, Promise<WikiProxyResult>>();
+  const waiting: Array<() => void> = [];
+  let active = 0;
+
+  const acquire = async () => {
+    if (active < maxConcurrent) {
+      active += 1;
+      return;
+    }
+    await new Promise<void>((resolve) => waiting.push(resolve));
+    active += 1;
+  };
+
+  const release = () => {
+    active -= 1;
+    waiting.shift()?.();
+  };
+
+  const remember = (url: string, result: WikiProxyResult) => {
+    if (result.status !== 200 || cacheTtlMs <= 0) {
+      return;
+    }
+
+    cache.delete(url);
+    cache.set(url, { expiresAt: Date.now() + cacheTtlMs, result });
+
+    while (cache.size > cacheSize) {
+      const oldest = cache.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      cache.delete(oldest);
+    }
+  };
+
+  const fetchWithRetry = async (url: string): Promise<WikiProxyResult> => {
+    let attempt = 0;
+
+    for (;;) {
+      let retryAfter: number | null = null;
+
+      await acquire();
+      try {
+        const response = await fetchImpl(url, {
+          headers: {
+            "User-Agent": userAgent,
+            "Api-User-Agent": userAgent,
+            Accept: "application/json",
+          },
+        });
+
+        if (!RETRYABLE_STATUS(response.status) || attempt >= maxRetries) {
+          return {
+            status: response.status,
+            body: await response.text(),
+            contentType: response.headers.get("content-type") ?? "application/json",
+          };
+        }
+
+        retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      } catch (error) {
+        if (attempt >= maxRetries) {
+          throw error;
+        }
+      } finally {
+        release();
+      }
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const jitter = Math.random() * baseDelayMs;
+      await sleep(Math.min(maxDelayMs, retryAfter ?? backoff + jitter));
+      attempt += 1;
+    }
+  };
+
+  return {
+    resolveUrl(language, path) {
+      return `${originTemplate.replace("$LANG", language)}${path}`;
+    },
+
+    async request(url) {
+      const cached = cache.get(url);
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.result;
+      }
+
+      const pending = inflight.get(url);
+      if (pending) {
+        return pending;
+      }
+
+      const promise = fetchWithRetry(url)
+        .then((result) => {
+          remember(url, result);
+          return result;
+        })
+        .finally(() => {
+          inflight.delete(url);
+        });
+
+      inflight.set(url, promise);
+      return promise;
+    },
+
+    clearCache() {
+      cache.clear();
+    },
+  };
+}